@@ -22,8 +22,9 @@ export class BalloonInflator {
     // Simplify stroke points for better mesh generation
     const simplifiedPoints = this.simplifyPoints(stroke.points, 20);
 
-    // Create the shape from 2D points
-    const shape = this.createShape(simplifiedPoints);
+    // Create the shape from 2D points, with any inner outlines cut out
+    const holes = (stroke.holes ?? []).map(hole => this.simplifyPoints(hole, 20));
+    const shape = this.createShape(simplifiedPoints, holes, stroke.polygon);
 
     // Create extruded geometry with rounded bevel
     const extrudeSettings: THREE.ExtrudeGeometryOptions = {
@@ -38,6 +39,11 @@ export class BalloonInflator {
 
     let geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
 
+    // Thicker where the line was drawn wider
+    if (stroke.widths) {
+      this.applyThickness(geometry, simplifiedPoints, this.simplifyPoints(stroke.widths, 20));
+    }
+
     // Center the geometry
     geometry.center();
 
@@ -69,11 +75,12 @@ export class BalloonInflator {
     return mesh;
   }
 
-  private simplifyPoints(points: Point2D[], targetCount: number): Point2D[] {
+  // Also used on per-point widths, which must pick the same indices as the points
+  private simplifyPoints<T>(points: T[], targetCount: number): T[] {
     if (points.length <= targetCount) return points;
 
     const step = points.length / targetCount;
-    const simplified: Point2D[] = [];
+    const simplified: T[] = [];
 
     for (let i = 0; i < targetCount; i++) {
       const index = Math.min(Math.floor(i * step), points.length - 1);
@@ -83,7 +90,7 @@ export class BalloonInflator {
     return simplified;
   }
 
-  private createShape(points: Point2D[]): THREE.Shape {
+  private createShape(points: Point2D[], holes: Point2D[][] = [], polygon = false): THREE.Shape {
     if (points.length < 3) {
       // Create a default circle if not enough points
       const shape = new THREE.Shape();
@@ -91,16 +98,33 @@ export class BalloonInflator {
       return shape;
     }
 
-    // Normalize points to be centered around origin
+    // Holes share the outline's origin so they land where they were drawn
     const center = this.getStrokeCenter(points);
-    const normalizedPoints = points.map(p => ({
-      x: (p.x - center.x) / 50,  // Scale down
-      y: -(p.y - center.y) / 50  // Flip Y and scale
-    }));
+    const shape = new THREE.Shape();
+    this.traceOutline(shape, this.normalizePoints(points, center), polygon);
+
+    for (const hole of holes) {
+      if (hole.length < 3) continue;
+      const path = new THREE.Path();
+      this.traceOutline(path, this.normalizePoints(hole, center), false);
+      shape.holes.push(path);
+    }
+
+    return shape;
+  }
+
+  // Smooth closed curve through the points, or straight edges for a polygon so its corners stay
+  // sharp. ExtrudeGeometry fixes up the winding of outlines and holes, so either drawing direction works.
+  private traceOutline(path: THREE.Path, points: Point2D[], polygon: boolean): void {
+    if (polygon) {
+      path.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => path.lineTo(p.x, p.y));
+      path.closePath();
+      return;
+    }
 
-    // Create smooth curve through points
     const curve = new THREE.CatmullRomCurve3(
-      normalizedPoints.map(p => new THREE.Vector3(p.x, p.y, 0)),
+      points.map(p => new THREE.Vector3(p.x, p.y, 0)),
       true,  // closed
       'catmullrom',
       0.5
@@ -109,16 +133,54 @@ export class BalloonInflator {
     // Sample the curve for smooth shape
     const sampledPoints = curve.getPoints(64);
 
-    const shape = new THREE.Shape();
-    shape.moveTo(sampledPoints[0].x, sampledPoints[0].y);
+    path.moveTo(sampledPoints[0].x, sampledPoints[0].y);
 
     for (let i = 1; i < sampledPoints.length; i++) {
-      shape.lineTo(sampledPoints[i].x, sampledPoints[i].y);
+      path.lineTo(sampledPoints[i].x, sampledPoints[i].y);
     }
 
-    shape.closePath();
+    path.closePath();
+  }
 
-    return shape;
+  // Normalize points to be centered around origin, in shape units
+  private normalizePoints(points: Point2D[], center: Point2D = this.getStrokeCenter(points)): Point2D[] {
+    return points.map(p => ({
+      x: (p.x - center.x) / 50,  // Scale down
+      y: -(p.y - center.y) / 50  // Flip Y and scale
+    }));
+  }
+
+  // Scales the depth of the extrusion around its middle by the stroke's local width relative to
+  // its average. Every vertex of an extruded outline lies on or near the outline, so the nearest
+  // points of the stroke decide its thickness.
+  private applyThickness(geometry: THREE.ExtrudeGeometry, points: Point2D[], widths: number[]): void {
+    if (points.length < 3 || widths.length !== points.length) return;
+
+    const outline = this.normalizePoints(points);
+    const mean = widths.reduce((sum, w) => sum + w, 0) / widths.length;
+    if (mean <= 0) return;
+    const factors = widths.map(w => w / mean);
+
+    const position = geometry.getAttribute('position');
+    const middle = SCENE.OBJECT_DEPTH / 2;
+
+    for (let i = 0; i < position.count; i++) {
+      const x = position.getX(i);
+      const y = position.getY(i);
+
+      // Inverse-distance weighting, steep enough that the closest point dominates
+      let weighted = 0, totalWeight = 0;
+      for (let j = 0; j < outline.length; j++) {
+        const d2 = (outline[j].x - x) ** 2 + (outline[j].y - y) ** 2;
+        const weight = 1 / (d2 * d2 + 1e-6);
+        weighted += factors[j] * weight;
+        totalWeight += weight;
+      }
+
+      position.setZ(i, middle + (position.getZ(i) - middle) * (weighted / totalWeight));
+    }
+
+    position.needsUpdate = true;
   }
 
   private inflateGeometry(geometry: THREE.ExtrudeGeometry): THREE.ExtrudeGeometry {
@@ -0,0 +1,8 @@
+// Source of the current time in ms. Timing-dependent code takes one so tests can drive it.
+export interface Clock {
+  now(): number;
+}
+
+export const performanceClock: Clock = {
+  now: () => performance.now()
+};
@@ -0,0 +1,53 @@
+import { HISTORY } from './constants';
+
+// A reversible edit. The edit itself is applied by the caller before it's recorded; undo and
+// redo then move between the states before and after it.
+export interface Command {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+export class CommandHistory {
+  private done: Command[] = [];
+  private undone: Command[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = HISTORY.MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  // A new edit makes everything that was undone unreachable
+  record(command: Command): void {
+    this.done.push(command);
+    if (this.done.length > this.maxEntries) {
+      this.done.shift();
+    }
+    this.undone = [];
+  }
+
+  // Forgets every edit, e.g. once the state is shared and can no longer be taken back locally
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+  }
+
+  // The command that was undone, or null if there was nothing to undo
+  undo(): Command | null {
+    const command = this.done.pop();
+    if (!command) return null;
+
+    command.undo();
+    this.undone.push(command);
+    return command;
+  }
+
+  redo(): Command | null {
+    const command = this.undone.pop();
+    if (!command) return null;
+
+    command.redo();
+    this.done.push(command);
+    return command;
+  }
+}
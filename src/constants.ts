@@ -1,3 +1,5 @@
+import { CameraPreset, DrawingTool, SmoothingSettings, StrokeWidthMode, ShapeSnapMode, GestureThresholds, GestureType, Handedness, HandRole, InferenceSettings, MappingMode, MappingSettings } from './types';
+
 // Pastel color palette
 export const COLORS = {
   pink: '#FFB3BA',
@@ -42,7 +44,182 @@ export const GESTURE = {
   SWIPE_VELOCITY: 800,          // pixels/second for swipe detection
   MIN_STROKE_LENGTH: 50,        // minimum stroke length in pixels
   FINGER_CURL_THRESHOLD: 0.6,   // ratio for determining if finger is curled
-  PALM_STABILITY_THRESHOLD: 30  // max movement for "still" palm
+  PALM_STABILITY_THRESHOLD: 30, // max movement for "still" palm
+  // Pinch, swipe and palm-stability pixels above apply to a hand this size (wrist to middle
+  // knuckle, in pixels) and scale with the hand actually in view
+  REFERENCE_HAND_SCALE: 100,
+  HAND_SCALE_SMOOTHING: 0.3     // weight of each new frame's hand size
+};
+
+// Gesture hysteresis: margins are relative to the GESTURE thresholds (1 = clear-cut pose).
+// A gesture starts above +enter, ends below -exit, and must be seen for dwellFrames in a row.
+export const GESTURE_HYSTERESIS = {
+  BANDS: {
+    swipe: { enter: 0, exit: 0.3, dwellFrames: 1 },
+    pinch: { enter: 0.05, exit: 0.35, dwellFrames: 2 },
+    fist: { enter: 0.1, exit: 0.3, dwellFrames: 3 },
+    palm: { enter: 0.05, exit: 0.3, dwellFrames: 2 },
+    draw: { enter: 0.05, exit: 0.3, dwellFrames: 2 },
+    none: { enter: 0, exit: 0, dwellFrames: 2 }
+  } as Partial<Record<GestureType, { enter: number; exit: number; dwellFrames: number }>>,
+  CURL_BAND: 0.2,                 // finger-curl ratio change from FINGER_CURL_THRESHOLD to a clear-cut pose
+  THUMB_BAND: 0.5,                // same for the thumb's spread ratio
+  MIN_TRANSITION_CONFIDENCE: 0.6, // pose changes below this confidence keep the previous gesture...
+  LOW_CONFIDENCE_GRACE: 300       // ...for up to this many ms, then it ends and 'none' is reported
+};
+
+// Per-user calibration: the wizard records each pose and places thresholds between them
+export const CALIBRATION = {
+  DEFAULT_THRESHOLDS: {
+    fingerCurl: GESTURE.FINGER_CURL_THRESHOLD,
+    curlBand: GESTURE_HYSTERESIS.CURL_BAND,
+    thumbSpread: 1.5,
+    thumbBand: GESTURE_HYSTERESIS.THUMB_BAND,
+    pinch: GESTURE.PINCH_THRESHOLD,
+    palmStability: GESTURE.PALM_STABILITY_THRESHOLD
+  } as GestureThresholds,
+  SAMPLES: 30,                  // frames recorded per pose
+  COUNTDOWN: 2000,              // ms to get into each pose before recording starts
+  PERCENTILE: 0.1,              // ignore this fraction of outlying frames at each end
+  MIN_BAND: 0.05,               // poses closer than this (as a ratio) can't be told apart
+  PALM_STABILITY_MARGIN: 2,     // palm threshold = this x the tremor measured while holding still
+  MIN_PALM_STABILITY: 10,       // px, so a very steady hand doesn't make palm impossible to hold
+  STORAGE_KEY: 'air-canvas-calibration'
+};
+
+// Movement gestures from the palm's recent path. Distances are in hand sizes (wrist to middle
+// knuckle), so they work at any distance from the camera.
+export const TRAJECTORY = {
+  WINDOW: 1200,              // ms of path kept for recognition
+  SWIPE_DISTANCE: 3,         // net travel for a directional swipe
+  SWIPE_STRAIGHTNESS: 0.8,   // net travel / path length
+  SWIPE_MAX_DURATION: 500,   // ms the swipe distance must be covered in
+  CIRCLE_TURN: Math.PI * 1.7,  // total turning (radians) for a circle
+  CIRCLE_MIN_PATH: 4,        // path length for a circle, so jitter can't spin one up
+  CIRCLE_CLOSURE: 0.35,      // start-to-end gap allowed, as a fraction of the path
+  FLICK_DISTANCE: 1,         // travel within FLICK_MAX_DURATION for a flick
+  FLICK_MAX_DURATION: 200,   // ms
+  STOP_SPEED: 2,             // hand sizes/second below which the hand counts as stopped
+  COOLDOWN: 400,             // ms after a movement gesture before the next can fire
+  SUPPRESSED_DURING: ['draw', 'pinch'] as GestureType[]  // poses that move the hand on purpose
+};
+
+// Depth from world landmarks. Hand distance comes from the hand's real size (world landmarks,
+// in meters) against its size on screen, so it's approximate but works for any hand.
+export const DEPTH = {
+  CAMERA_FOV: Math.PI / 3,    // horizontal field of view assumed for the webcam
+  SMOOTHING: 0.3,             // weight of each new frame's depth estimate
+  PUSH_DISTANCE: 0.06,        // m the fingertip moves toward the camera from rest to put the pen down
+  PUSH_BAND: 0.03,            // m past the plane for a clear-cut push (draw hysteresis applies to this)
+  REST_FOLLOW: 0.01,          // per frame: how fast the rest depth catches up when the hand settles closer
+  PUSH_STORAGE_KEY: 'air-canvas-push-to-draw'
+};
+
+// User-trained custom gestures
+export const TEMPLATES = {
+  MAX_DISTANCE: 0.35,       // RMS landmark distance (in hand sizes) that still counts as a match
+  SAMPLES: 20,              // frames recorded per gesture
+  COUNTDOWN: 2000,          // ms to get into pose before recording starts
+  BAND: { enter: 0.1, exit: 0.25, dwellFrames: 3 },  // hysteresis, as in GESTURE_HYSTERESIS
+  STORAGE_KEY: 'air-canvas-custom-gestures'
+};
+
+// Drawing-hand gesture -> action bindings (action ids are registered in main.ts)
+export const BINDINGS = {
+  DEFAULTS: {
+    draw: 'draw',
+    pinch: 'grab',
+    palm: 'inflate',
+    fist: 'none',
+    swipe: 'delete',
+    'circle-ccw': 'undo',
+    'circle-cw': 'redo',
+    flick: 'keep-shape'         // only acts while a clean shape is on offer
+  } as Partial<Record<GestureType, string>>,
+  // Gestures that can be rebound, with their names in the settings panel
+  GESTURE_LABELS: {
+    draw: 'Point',
+    pinch: 'Pinch',
+    palm: 'Open palm',
+    fist: 'Fist',
+    swipe: 'Swipe (while moving)',
+    'swipe-left': 'Swipe left',
+    'swipe-right': 'Swipe right',
+    'swipe-up': 'Swipe up',
+    'swipe-down': 'Swipe down',
+    'circle-cw': 'Circle clockwise',
+    'circle-ccw': 'Circle counter-clockwise',
+    flick: 'Flick'
+  } as Partial<Record<GestureType, string>>,
+  STORAGE_KEY: 'air-canvas-gesture-bindings'
+};
+
+// Two-hand tracking
+export const HANDS = {
+  MAX_HANDS: 2,
+  DEFAULT_ROLES: { right: 'draw', left: 'palette' } as Record<Handedness, HandRole>,
+  ROLES: ['draw', 'palette', 'tools', 'camera', 'none'] as HandRole[],
+  ROLES_STORAGE_KEY: 'air-canvas-hand-roles'
+};
+
+// Camera capture presets
+export const CAMERA = {
+  PRESETS: {
+    low: { width: 640, height: 480, frameRate: 30 },
+    medium: { width: 1280, height: 720, frameRate: 30 },
+    high: { width: 1920, height: 1080, frameRate: 30 },
+    smooth: { width: 640, height: 480, frameRate: 60 }
+  } as Record<CameraPreset, { width: number; height: number; frameRate: number }>,
+  DEFAULT_PRESET: 'low' as CameraPreset,
+  STORAGE_KEY: 'air-canvas-camera'
+};
+
+// Adaptive inference: cheaper settings are tried in order until latency fits the target
+export const INFERENCE = {
+  LEVELS: [
+    { modelComplexity: 1, inputScale: 1, frameSkip: 0 },
+    { modelComplexity: 0, inputScale: 1, frameSkip: 0 },
+    { modelComplexity: 0, inputScale: 0.75, frameSkip: 0 },
+    { modelComplexity: 0, inputScale: 0.5, frameSkip: 0 },
+    { modelComplexity: 0, inputScale: 0.5, frameSkip: 1 },
+    { modelComplexity: 0, inputScale: 0.5, frameSkip: 2 }
+  ] as InferenceSettings[],
+  TARGET_LATENCY: 33,       // ms per inference; 0 turns the governor off
+  SAMPLE_WINDOW: 30,        // inferences measured before each adjustment
+  WARMUP_SAMPLES: 5,        // inferences ignored after a start or switch (shader compiles, model load)
+  LATENCY_SMOOTHING: 0.1,   // weight of each new sample in the running average
+  DEGRADE_RATIO: 1.2,       // step down when average latency exceeds target by this much
+  UPGRADE_RATIO: 0.6,       // step back up only with this much headroom, to avoid flip-flopping
+  STORAGE_KEY: 'air-canvas-inference-target'
+};
+
+// Camera-to-screen mapping
+export const MAPPING = {
+  DEFAULT: {
+    mode: 'cover',
+    region: { x: 0.2, y: 0.2, width: 0.6, height: 0.6 }
+  } as MappingSettings,
+  MODES: ['stretch', 'contain', 'cover', 'region'] as MappingMode[],
+  MIN_REGION_SIZE: 0.05,        // smallest active region side, as a fraction of the frame
+  FALLBACK_IMAGE_WIDTH: 640,    // assumed frame size when a source doesn't report one
+  FALLBACK_IMAGE_HEIGHT: 480,
+  STORAGE_KEY: 'air-canvas-mapping'
+};
+
+// Bridging dropped tracking frames
+export const PREDICTION = {
+  MAX_FRAMES: 6,          // missed frames to fill before reporting the hand as gone
+  TIMEOUT: 300,           // ms without a real detection before the hand is gone regardless
+  VELOCITY_DAMPING: 0.7   // per-frame decay so predictions slow down instead of overshooting
+};
+
+// Mouse, pen and touch input
+export const POINTER = {
+  DOUBLE_TAP_TIME: 300,       // ms between taps to close and inflate
+  DOUBLE_TAP_DISTANCE: 30,    // px the second tap may land from the first
+  TAP_MOVE_TOLERANCE: 6,      // px a pointer may move and still count as a tap
+  MIN_PRESSURE_WIDTH: 0.4,    // stroke width multiplier at zero pen pressure
+  MAX_PRESSURE_WIDTH: 1.8     // stroke width multiplier at full pen pressure
 };
 
 // Stroke settings
@@ -51,6 +228,76 @@ export const STROKE = {
   MIN_POINT_DISTANCE: 8     // higher = smoother lines, less jitter
 };
 
+// Variable-width strokes (see strokeWidth.ts)
+export const STROKE_WIDTH = {
+  MIN_FACTOR: 0.4,          // thinnest point, as a fraction of the tool width
+  MAX_FACTOR: 1.6,          // widest point
+  FAST_SPEED: 1500,         // px/s at which a speed-driven line is at its thinnest
+  DEPTH_RANGE: 0.1,         // m closer than where the stroke started for the widest line
+  EASING: 0.3,              // weight of each new point's width, so the line swells rather than steps
+  MIN_OPACITY: 0.6,         // speed-driven ink at its thinnest
+  TAPER_LENGTH: 40,         // px over which the ends of an open stroke narrow
+  TAPER_MIN: 0.2,           // width factor at the very tip
+  DEFAULT_MODE: 'constant' as StrokeWidthMode,
+  STORAGE_KEY: 'air-canvas-stroke-width'
+};
+
+// Shapes built from several closed outlines (see contours.ts)
+export const CONTOURS = {
+  CONTAINMENT: 0.9,         // share of an outline's points inside another for it to count as inside
+  PENDING_OPACITY: 0.6,     // outlines waiting to be inflated together
+  STORAGE_KEY: 'air-canvas-multi-contour'
+};
+
+// Shape recognition before inflating (see shapeRecognizer.ts)
+export const SHAPES = {
+  SAMPLES: 64,              // points the stroke is resampled to for fitting
+  MAX_ERROR: 0.08,          // mean gap between stroke and clean shape, in radii of the stroke
+  CIRCLE_RATIO: 1.2,        // ellipses rounder than this (long/short axis) are circles
+  STAR_POINTS: 5,
+  STAR_MAX_INNER: 0.7,      // inner/outer radius above which five bumps are a pentagon, not a star
+  OUTLINE_POINTS: 20,       // points in a snapped outline, corners included; no more than the inflator keeps
+  DEFAULT_MODE: 'off' as ShapeSnapMode,
+  STORAGE_KEY: 'air-canvas-shape-snap'
+};
+
+// Drawing smoothing. The defaults replace the old fixed 3px dead zone + 10-point average.
+export const SMOOTHING = {
+  DEFAULT: {
+    filter: 'one-euro',
+    deadZone: 0,
+    minCutoff: 1,
+    beta: 0.01,
+    alpha: 0.3,
+    window: 10
+  } as SmoothingSettings,
+  STORAGE_KEY: 'air-canvas-smoothing'
+};
+
+// Finger-count shortcuts: holding up 1-5 fingers picks that palette color or tool
+export const SHORTCUTS = {
+  COUNT_DWELL_FRAMES: 3,    // frames a new finger count must be seen before it's reported
+  HOLD_TIME: 600,           // ms to hold a count before it picks
+  MODE_TIMEOUT: 5000,       // ms the drawing hand stays in palette/tool mode without picking
+  CONFIRM_TIME: 800,        // ms the picked option stays on screen
+  TOOLS: [
+    { id: 'pen', label: 'Pen', width: STROKE.WIDTH },
+    { id: 'marker', label: 'Marker', width: STROKE.WIDTH * 2.5 },
+    { id: 'eraser', label: 'Eraser', width: STROKE.WIDTH }
+  ] as { id: DrawingTool; label: string; width: number }[]
+};
+
+// Hand-tracking session recording
+export const RECORDING = {
+  MAX_DURATION: 5 * 60 * 1000,  // ms of frames kept; capture stops there to bound memory
+  REVOKE_DELAY: 10000           // ms before a downloaded file's object URL is released
+};
+
+// Undo/redo
+export const HISTORY = {
+  MAX_ENTRIES: 100          // oldest edits are forgotten beyond this
+};
+
 // Animation timings (in seconds)
 export const TIMING = {
   STROKE_CLOSE_PULSE: 0.2,
@@ -76,6 +323,8 @@ export const SCENE = {
   BOB_SPEED_MIN: 0.5,
   BOB_SPEED_MAX: 1.5,
   ROTATION_SPEED_MAX: 0.3,
+  NAV_ORBIT_STEP: Math.PI / 4,  // radians per orbit gesture
+  NAV_ZOOM_STEP: 0.4,           // zoomCamera delta per zoom gesture
   DRIFT_SPEED: 0.02,
   COLLISION_RADIUS: 1.5
 };
@@ -87,6 +336,7 @@ export const VISUAL = {
   CURSOR_PULSE_SPEED: 2,
   HAND_SKELETON_OPACITY: 0.3,
   HAND_SKELETON_WIDTH: 2,
+  SHORTCUT_SIZE: 14,           // radius of a finger-count shortcut option
   BLOOM_STRENGTH: 0.3,
   BLOOM_RADIUS: 0.5,
   DOF_FOCUS: 10,
@@ -0,0 +1,62 @@
+import { Point2D, Stroke } from './types';
+import { CONTOURS } from './constants';
+
+// Even-odd ray cast along +x
+export function pointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + (point.y - a.y) * (b.x - a.x) / (b.y - a.y)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Hand-drawn outlines can graze each other, so most of the points being inside is enough
+export function containsContour(outer: Point2D[], inner: Point2D[]): boolean {
+  if (inner.length === 0) return false;
+  const inside = inner.filter(p => pointInPolygon(p, outer)).length;
+  return inside / inner.length >= CONTOURS.CONTAINMENT;
+}
+
+export function polygonArea(points: Point2D[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return Math.abs(area / 2);
+}
+
+// Turns closed outlines into shapes to inflate. An outline inside another becomes a hole in it;
+// an outline inside a hole starts a shape of its own, and so on, alternating with depth.
+export function groupContours(contours: Stroke[]): Stroke[] {
+  // Largest first, so every outline's containers have already been placed
+  const sorted = [...contours].sort((a, b) => polygonArea(b.points) - polygonArea(a.points));
+  const placed: { contour: Stroke; depth: number; shape: Stroke }[] = [];
+  const shapes: Stroke[] = [];
+
+  for (const contour of sorted) {
+    // The smallest container is the last one placed that contains it
+    let parent: (typeof placed)[number] | null = null;
+    for (let i = placed.length - 1; i >= 0; i--) {
+      if (containsContour(placed[i].contour.points, contour.points)) {
+        parent = placed[i];
+        break;
+      }
+    }
+
+    const depth = parent ? parent.depth + 1 : 0;
+    if (parent && depth % 2 === 1) {
+      parent.shape.holes = [...(parent.shape.holes ?? []), contour.points];
+      placed.push({ contour, depth, shape: parent.shape });
+    } else {
+      const shape: Stroke = { ...contour, holes: [] };
+      shapes.push(shape);
+      placed.push({ contour, depth, shape });
+    }
+  }
+
+  return shapes;
+}
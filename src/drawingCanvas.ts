@@ -1,20 +1,32 @@
-import { Point2D, Stroke } from './types';
-import { STROKE, GESTURE } from './constants';
-
-// Jitter filter threshold - ignore movements smaller than this
-const JITTER_THRESHOLD = 3;
+import { Point2D, SmoothingSettings, Stroke, StrokeWidthMode } from './types';
+import { STROKE, GESTURE, SMOOTHING, CONTOURS } from './constants';
+import { FilterChain, createFilterChain } from './pointFilters';
+import { StrokeWidthModel, ribbonOutline } from './strokeWidth';
+import { Clock, performanceClock } from './clock';
+
+// Stroke in progress and outlines waiting to be combined, for undo
+export interface DrawingSnapshot {
+  stroke: Stroke | null;
+  contours: Stroke[];
+}
 
 export class DrawingCanvas {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private clock: Clock;
   private currentStroke: Stroke | null = null;
   private completedStrokes: Stroke[] = [];
+  private contours: Stroke[] = [];  // Closed outlines waiting to be inflated together
+  private snapPreview: Stroke | null = null;  // Clean shape offered in place of the one drawn
   private livePosition: Point2D | null = null;
-  private filteredPosition: Point2D | null = null;  // Position after jitter filter
-  private recentPoints: Point2D[] = [];  // Buffer for smoothing
+  private smoothing: SmoothingSettings = SMOOTHING.DEFAULT;
+  private filter: FilterChain = createFilterChain(SMOOTHING.DEFAULT);
+  private lastInput: Point2D | null = null;  // Last point filtered, so it isn't filtered twice
+  private widthModel = new StrokeWidthModel();
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, clock: Clock = performanceClock) {
     this.canvas = canvas;
+    this.clock = clock;
     const ctx = canvas.getContext('2d', { alpha: true });
     if (!ctx) throw new Error('Could not get 2D context');
     this.ctx = ctx;
@@ -32,32 +44,54 @@ export class DrawingCanvas {
     this.ctx.imageSmoothingQuality = 'high';
   }
 
-  startStroke(point: Point2D, color: string): void {
+  // depth (meters from the camera) drives the width in 'depth' mode; null when unknown
+  startStroke(point: Point2D, color: string, width: number = STROKE.WIDTH, depth: number | null = null): void {
     this.currentStroke = {
       points: [point],
       color,
-      width: STROKE.WIDTH,
+      width,
       closed: false
     };
-    this.livePosition = point;
-    this.filteredPosition = point;
-    this.recentPoints = [point];
+    // A fresh chain picks up smoothing settings changed during the last stroke
+    this.filter = createFilterChain(this.smoothing);
+    this.lastInput = null;
+    this.livePosition = this.smooth(point);
+
+    this.widthModel.reset();
+    if (this.widthModel.getMode() !== 'constant') {
+      const sample = this.widthModel.sample(point, this.clock.now(), depth);
+      this.currentStroke.widths = [width * sample.factor];
+      this.currentStroke.opacities = [sample.opacity];
+    }
   }
 
-  addPoint(point: Point2D): void {
-    if (!this.currentStroke) return;
+  getWidthMode(): StrokeWidthMode {
+    return this.widthModel.getMode();
+  }
 
-    // Apply jitter filter - ignore tiny movements
-    const filtered = this.applyJitterFilter(point);
+  // Takes effect from the next stroke
+  setWidthMode(mode: StrokeWidthMode): void {
+    this.widthModel.setMode(mode);
+  }
 
-    // Add filtered point to buffer
-    this.recentPoints.push(filtered);
-    if (this.recentPoints.length > 10) {
-      this.recentPoints.shift();
+  getSmoothing(): SmoothingSettings {
+    return { ...this.smoothing };
+  }
+
+  // Takes effect from the next stroke, so the line being drawn doesn't jump
+  setSmoothing(settings: SmoothingSettings): void {
+    this.smoothing = { ...settings };
+    if (!this.currentStroke) {
+      this.filter = createFilterChain(this.smoothing);
+      this.lastInput = null;
     }
+  }
+
+  // width replaces the stroke's width for this point only (e.g. from pen pressure)
+  addPoint(point: Point2D, depth: number | null = null, width: number | null = null): void {
+    if (!this.currentStroke) return;
 
-    // Use strong smoothing
-    const smoothed = this.getSmoothedPosition();
+    const smoothed = this.smooth(point);
     this.livePosition = smoothed;
 
     const lastPoint = this.currentStroke.points[this.currentStroke.points.length - 1];
@@ -65,61 +99,46 @@ export class DrawingCanvas {
 
     // Only add points that are far enough apart
     if (dist >= STROKE.MIN_POINT_DISTANCE) {
+      if (width !== null) {
+        this.ensurePointWidths(this.currentStroke);
+      }
       this.currentStroke.points.push(smoothed);
+      // The width is measured only between kept points, so speed isn't read off sub-pixel jitter
+      const { widths, opacities } = this.currentStroke;
+      if (widths && opacities) {
+        const sample = this.widthModel.sample(smoothed, this.clock.now(), depth);
+        widths.push((width ?? this.currentStroke.width) * sample.factor);
+        opacities.push(sample.opacity);
+      }
     }
   }
 
-  // Filter out jitter - only update if movement is significant
-  private applyJitterFilter(point: Point2D): Point2D {
-    if (!this.filteredPosition) {
-      this.filteredPosition = point;
-      return point;
-    }
-
-    const dist = this.distance(point, this.filteredPosition);
-
-    // If movement is below threshold, ignore it (return last position)
-    if (dist < JITTER_THRESHOLD) {
-      return this.filteredPosition;
-    }
-
-    // Movement is significant - update filtered position
-    this.filteredPosition = point;
-    return point;
+  // Constant-width strokes carry no per-point widths until a point brings its own
+  private ensurePointWidths(stroke: Stroke): void {
+    if (stroke.widths && stroke.opacities) return;
+    stroke.widths = stroke.points.map(() => stroke.width);
+    stroke.opacities = stroke.points.map(() => 1);
   }
 
-  // Strong smoothing using simple moving average
-  private getSmoothedPosition(): Point2D {
-    if (this.recentPoints.length === 0) {
-      return { x: 0, y: 0 };
-    }
-
-    // Simple average of all points in buffer
-    let sumX = 0, sumY = 0;
-    for (const p of this.recentPoints) {
-      sumX += p.x;
-      sumY += p.y;
+  // Callers often pass the same point to updateLivePosition and addPoint in one frame; it only
+  // goes through the filters once
+  private smooth(point: Point2D): Point2D {
+    if (point === this.lastInput && this.livePosition) {
+      return this.livePosition;
     }
-    return {
-      x: sumX / this.recentPoints.length,
-      y: sumY / this.recentPoints.length
-    };
+    this.lastInput = point;
+    return this.filter.filter(point, this.clock.now());
   }
 
   // Update live position without adding a point (for real-time tracking)
   updateLivePosition(point: Point2D): void {
-    const filtered = this.applyJitterFilter(point);
-    this.recentPoints.push(filtered);
-    if (this.recentPoints.length > 10) {
-      this.recentPoints.shift();
-    }
-    this.livePosition = this.getSmoothedPosition();
+    this.livePosition = this.smooth(point);
   }
 
   clearLivePosition(): void {
     this.livePosition = null;
-    this.filteredPosition = null;
-    this.recentPoints = [];
+    this.lastInput = null;
+    this.filter.reset();
   }
 
   private distance(p1: Point2D, p2: Point2D): number {
@@ -134,6 +153,38 @@ export class DrawingCanvas {
   }
 
   closeStroke(): Stroke | null {
+    const closedStroke = this.finishStroke();
+    if (closedStroke) {
+      this.completedStrokes.push(closedStroke);
+    }
+    return closedStroke;
+  }
+
+  // Closes the stroke in progress and keeps it as an outline for a shape with several
+  closeContour(): Stroke | null {
+    const contour = this.finishStroke();
+    if (contour) {
+      this.contours.push(contour);
+    }
+    return contour;
+  }
+
+  setSnapPreview(stroke: Stroke | null): void {
+    this.snapPreview = stroke;
+  }
+
+  getContours(): Stroke[] {
+    return [...this.contours];
+  }
+
+  // Hands over the waiting outlines to be inflated
+  takeContours(): Stroke[] {
+    const contours = this.contours;
+    this.contours = [];
+    return contours;
+  }
+
+  private finishStroke(): Stroke | null {
     if (!this.currentStroke) return null;
 
     // Check if stroke is long enough
@@ -147,7 +198,6 @@ export class DrawingCanvas {
     if (this.currentStroke.points.length > 2) {
       this.currentStroke.closed = true;
       const closedStroke = { ...this.currentStroke };
-      this.completedStrokes.push(closedStroke);
       this.currentStroke = null;
       return closedStroke;
     }
@@ -177,9 +227,40 @@ export class DrawingCanvas {
     return this.currentStroke;
   }
 
+  // Copy of the stroke in progress, for undo
+  snapshotStroke(): Stroke | null {
+    return this.currentStroke ? this.copyStroke(this.currentStroke) : null;
+  }
+
+  // Puts back a snapshot as the stroke in progress (null removes it)
+  restoreStroke(stroke: Stroke | null): void {
+    this.currentStroke = stroke ? this.copyStroke(stroke) : null;
+    this.clearLivePosition();
+  }
+
+  snapshotDrawing(): DrawingSnapshot {
+    return { stroke: this.snapshotStroke(), contours: this.getContours() };
+  }
+
+  restoreDrawing(snapshot: DrawingSnapshot): void {
+    this.restoreStroke(snapshot.stroke);
+    this.contours = [...snapshot.contours];
+  }
+
+  private copyStroke(stroke: Stroke): Stroke {
+    return {
+      ...stroke,
+      points: [...stroke.points],
+      widths: stroke.widths && [...stroke.widths],
+      opacities: stroke.opacities && [...stroke.opacities]
+    };
+  }
+
   clearAll(): void {
     this.currentStroke = null;
     this.completedStrokes = [];
+    this.contours = [];
+    this.snapPreview = null;
     this.clear();
   }
 
@@ -195,6 +276,14 @@ export class DrawingCanvas {
       this.renderStroke(stroke, 0.3);
     }
 
+    for (const contour of this.contours) {
+      this.renderStroke(contour, CONTOURS.PENDING_OPACITY);
+    }
+
+    if (this.snapPreview) {
+      this.renderSnapPreview(this.snapPreview);
+    }
+
     // Render current stroke with live extension to finger position
     if (this.currentStroke && this.currentStroke.points.length >= 1) {
       this.renderStrokeWithLiveExtension(this.currentStroke, 1.0);
@@ -218,6 +307,19 @@ export class DrawingCanvas {
       points.push(this.livePosition);
     }
 
+    // The live extension carries on at the last point's width; the end being drawn isn't tapered
+    if (stroke.widths && stroke.opacities && points.length > 1) {
+      const widths = [...stroke.widths];
+      const opacities = [...stroke.opacities];
+      if (this.livePosition) {
+        widths.push(widths[widths.length - 1]);
+        opacities.push(opacities[opacities.length - 1]);
+      }
+      this.drawRibbon(points, widths, opacities, false, !this.livePosition, alpha);
+      this.ctx.restore();
+      return;
+    }
+
     // If only one point, draw a dot
     if (points.length === 1) {
       this.ctx.beginPath();
@@ -235,10 +337,19 @@ export class DrawingCanvas {
 
   // Smooth curve using cubic bezier with calculated control points
   private drawSmoothCurve(points: Point2D[]): void {
+    this.ctx.beginPath();
+    this.traceCurve(points, true);
+  }
+
+  // Adds the curve to the current path, starting a new subpath or joining on with a line
+  private traceCurve(points: Point2D[], newSubpath: boolean): void {
     if (points.length < 2) return;
 
-    this.ctx.beginPath();
-    this.ctx.moveTo(points[0].x, points[0].y);
+    if (newSubpath) {
+      this.ctx.moveTo(points[0].x, points[0].y);
+    } else {
+      this.ctx.lineTo(points[0].x, points[0].y);
+    }
 
     if (points.length === 2) {
       this.ctx.lineTo(points[1].x, points[1].y);
@@ -287,6 +398,12 @@ export class DrawingCanvas {
       return;
     }
 
+    if (stroke.widths && stroke.opacities) {
+      this.drawRibbon(stroke.points, stroke.widths, stroke.opacities, stroke.closed, true, alpha);
+      this.ctx.restore();
+      return;
+    }
+
     // Use smooth curves
     let points = [...stroke.points];
     if (stroke.closed) {
@@ -297,6 +414,71 @@ export class DrawingCanvas {
     this.ctx.restore();
   }
 
+  // Variable-width stroke, filled as a ribbon between its two edges
+  private drawRibbon(
+    points: Point2D[],
+    widths: number[],
+    opacities: number[],
+    closed: boolean,
+    taperEnd: boolean,
+    alpha: number
+  ): void {
+    const outline = ribbonOutline(points, widths, closed, taperEnd);
+
+    // Varying opacity needs each segment filled on its own
+    if (opacities.some(opacity => opacity < 1)) {
+      const count = closed ? points.length : points.length - 1;
+      for (let i = 0; i < count; i++) {
+        const j = (i + 1) % points.length;
+        this.ctx.globalAlpha = alpha * (opacities[i] + opacities[j]) / 2;
+        this.ctx.beginPath();
+        this.ctx.moveTo(outline.left[i].x, outline.left[i].y);
+        this.ctx.lineTo(outline.left[j].x, outline.left[j].y);
+        this.ctx.lineTo(outline.right[j].x, outline.right[j].y);
+        this.ctx.lineTo(outline.right[i].x, outline.right[i].y);
+        this.ctx.closePath();
+        this.ctx.fill();
+      }
+    } else if (closed) {
+      // Two loops, with the inner one cut out
+      this.ctx.beginPath();
+      this.traceCurve(outline.left, true);
+      this.ctx.closePath();
+      this.traceCurve(outline.right, true);
+      this.ctx.closePath();
+      this.ctx.fill('evenodd');
+    } else {
+      this.ctx.beginPath();
+      this.traceCurve(outline.left, true);
+      this.traceCurve([...outline.right].reverse(), false);
+      this.ctx.closePath();
+      this.ctx.fill();
+    }
+
+    if (closed) return;
+
+    // Round off the two ends
+    for (const i of [0, points.length - 1]) {
+      this.ctx.globalAlpha = alpha * opacities[i];
+      this.ctx.beginPath();
+      this.ctx.arc(points[i].x, points[i].y, outline.widths[i] / 2, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+  }
+
+  // Dashed over the faded original, so both can be compared
+  private renderSnapPreview(stroke: Stroke): void {
+    this.ctx.save();
+    this.ctx.strokeStyle = stroke.color;
+    this.ctx.lineWidth = stroke.width;
+    this.ctx.lineCap = 'round';
+    this.ctx.lineJoin = 'round';
+    this.ctx.setLineDash([stroke.width * 2, stroke.width * 1.5]);
+    this.drawStrokePath(stroke);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
   renderClosingAnimation(stroke: Stroke, progress: number): void {
     if (stroke.points.length < 2) return;
 
@@ -324,6 +506,13 @@ export class DrawingCanvas {
     this.ctx.globalAlpha = 1;
     this.ctx.lineWidth = stroke.width * pulseScale;
 
+    if (stroke.widths && stroke.opacities) {
+      this.ctx.fillStyle = stroke.color;
+      this.drawRibbon(stroke.points, stroke.widths.map(w => w * pulseScale), stroke.opacities, stroke.closed, true, 1);
+      this.ctx.restore();
+      return;
+    }
+
     this.drawStrokePath(stroke);
     this.ctx.stroke();
 
@@ -331,6 +520,13 @@ export class DrawingCanvas {
   }
 
   private drawStrokePath(stroke: Stroke): void {
+    if (stroke.polygon) {
+      this.ctx.beginPath();
+      stroke.points.forEach((p, i) => i === 0 ? this.ctx.moveTo(p.x, p.y) : this.ctx.lineTo(p.x, p.y));
+      this.ctx.closePath();
+      return;
+    }
+
     let points = [...stroke.points];
     if (stroke.closed) {
       points.push(stroke.points[0]);  // Close the loop
@@ -0,0 +1,43 @@
+import { GestureState } from './types';
+import { SHORTCUTS } from './constants';
+
+// What a hand picks from by finger count: palette colors or drawing tools
+export type ShortcutMode = 'palette' | 'tools';
+
+export interface FingerPick {
+  index: number | null;   // option the finger count points at; null for 0 or too many fingers
+  progress: number;       // 0..1 towards picking it
+  picked: boolean;        // true on the one frame the hold completes
+}
+
+// Holding up N fingers for SHORTCUTS.HOLD_TIME picks option N-1. Each hold picks once; the
+// count has to change before the same option can be picked again.
+export class FingerCountPicker {
+  private pickedCount: number | null = null;
+  private lastDuration = 0;
+
+  update(state: GestureState, optionCount: number): FingerPick {
+    // A shorter duration than last frame means the count changed (or the hand came back)
+    if (state.fingersDuration < this.lastDuration || state.fingers !== this.pickedCount) {
+      this.pickedCount = null;
+    }
+    this.lastDuration = state.fingersDuration;
+
+    if (state.fingers < 1 || state.fingers > optionCount) {
+      return { index: null, progress: 0, picked: false };
+    }
+
+    const progress = Math.min(1, state.fingersDuration / SHORTCUTS.HOLD_TIME);
+    const picked = progress === 1 && this.pickedCount === null;
+    if (picked) {
+      this.pickedCount = state.fingers;
+    }
+
+    return { index: state.fingers - 1, progress, picked };
+  }
+
+  reset(): void {
+    this.pickedCount = null;
+    this.lastDuration = 0;
+  }
+}
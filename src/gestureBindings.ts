@@ -0,0 +1,135 @@
+import { GestureState, GestureType, HandLandmarks, Point2D } from './types';
+import { BINDINGS } from './constants';
+
+// continuous: runs every frame the gesture is held; trigger: once when the gesture starts;
+// hold: once the gesture has been held for holdTime
+export type ActionMode = 'continuous' | 'trigger' | 'hold';
+
+export interface ActionContext {
+  state: GestureState;
+  landmarks: HandLandmarks;
+  pointer: Point2D;     // index fingertip in screen pixels
+}
+
+export interface GestureAction {
+  id: string;
+  label: string;
+  mode: ActionMode;
+  holdTime?: number;     // ms, for 'hold' actions
+  exclusive?: boolean;   // may be bound to at most one gesture
+  required?: boolean;    // must be bound to some gesture
+  run(context: ActionContext): void;
+}
+
+export type BindingTable = Partial<Record<GestureType, string>>;
+
+export interface BindingConflict {
+  action: string;
+  gestures: GestureType[];
+  message: string;
+}
+
+// Named actions gestures can be bound to; the app registers the implementations
+export class ActionRegistry {
+  private actions = new Map<string, GestureAction>();
+
+  register(action: GestureAction): void {
+    this.actions.set(action.id, action);
+  }
+
+  get(id: string): GestureAction | null {
+    return this.actions.get(id) ?? null;
+  }
+
+  list(): GestureAction[] {
+    return Array.from(this.actions.values());
+  }
+}
+
+// Which action each drawing-hand gesture performs
+export class GestureBindings {
+  private registry: ActionRegistry;
+  private bindings: BindingTable;
+  private gestureLabels: Partial<Record<GestureType, string>>;
+
+  // customGestures must be known up front so their saved bindings survive sanitizing
+  constructor(
+    registry: ActionRegistry,
+    bindings: BindingTable = BINDINGS.DEFAULTS,
+    customGestures: Partial<Record<GestureType, string>> = {}
+  ) {
+    this.registry = registry;
+    this.gestureLabels = { ...BINDINGS.GESTURE_LABELS, ...customGestures };
+    this.bindings = this.sanitize(bindings);
+  }
+
+  // Bindable gestures with their display names, built-ins first
+  getGestureLabels(): Partial<Record<GestureType, string>> {
+    return { ...this.gestureLabels };
+  }
+
+  // New custom gestures start unbound ('none')
+  addGesture(gesture: GestureType, label: string): void {
+    this.gestureLabels[gesture] = label;
+    this.bindings[gesture] ??= 'none';
+  }
+
+  removeGesture(gesture: GestureType): void {
+    if (gesture in BINDINGS.GESTURE_LABELS) return;
+    delete this.gestureLabels[gesture];
+    delete this.bindings[gesture];
+  }
+
+  getAction(gesture: GestureType): GestureAction | null {
+    const id = this.bindings[gesture];
+    return id ? this.registry.get(id) : null;
+  }
+
+  getBindings(): BindingTable {
+    return { ...this.bindings };
+  }
+
+  setBindings(bindings: BindingTable): void {
+    this.bindings = this.sanitize(bindings);
+  }
+
+  reset(): void {
+    this.bindings = this.sanitize(BINDINGS.DEFAULTS);
+  }
+
+  // Problems that would make a table confusing to use; an empty list means it's safe to apply
+  findConflicts(bindings: BindingTable = this.bindings): BindingConflict[] {
+    const conflicts: BindingConflict[] = [];
+    const gesturesByAction = new Map<string, GestureType[]>();
+
+    for (const [gesture, id] of Object.entries(bindings) as [GestureType, string][]) {
+      gesturesByAction.set(id, [...(gesturesByAction.get(id) ?? []), gesture]);
+    }
+
+    for (const action of this.registry.list()) {
+      const gestures = gesturesByAction.get(action.id) ?? [];
+
+      if (action.exclusive && gestures.length > 1) {
+        const names = gestures.map(g => this.gestureLabels[g] ?? g).join(' and ');
+        conflicts.push({ action: action.id, gestures, message: `${action.label} is bound to both ${names}` });
+      }
+
+      if (action.required && gestures.length === 0) {
+        conflicts.push({ action: action.id, gestures, message: `Nothing is bound to ${action.label}` });
+      }
+    }
+
+    return conflicts;
+  }
+
+  // Drops gestures and actions that no longer exist (e.g. from an older saved table)
+  private sanitize(bindings: BindingTable): BindingTable {
+    const result: BindingTable = {};
+    for (const [gesture, id] of Object.entries(bindings) as [GestureType, string][]) {
+      if (gesture in this.gestureLabels && this.registry.get(id)) {
+        result[gesture] = id;
+      }
+    }
+    return result;
+  }
+}
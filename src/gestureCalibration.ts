@@ -0,0 +1,160 @@
+import { CalibrationProfile, GestureThresholds, HandLandmarks, Point2D } from './types';
+import { CALIBRATION, GESTURE, LANDMARKS } from './constants';
+
+export type CalibrationPose = 'palm' | 'fist' | 'pinch' | 'point';
+
+// Wizard steps, in order
+export const CALIBRATION_STEPS: { pose: CalibrationPose; prompt: string }[] = [
+  { pose: 'palm', prompt: 'Show an open palm and hold it still' },
+  { pose: 'fist', prompt: 'Make a fist' },
+  { pose: 'pinch', prompt: 'Pinch your thumb and index finger together' },
+  { pose: 'point', prompt: 'Point with your index finger' }
+];
+
+// A stored profile's thresholds are only trusted if every one is a usable positive number
+export function isValidThresholds(value: unknown): value is GestureThresholds {
+  if (typeof value !== 'object' || value === null) return false;
+  const thresholds = value as Record<string, unknown>;
+  return (Object.keys(CALIBRATION.DEFAULT_THRESHOLDS) as (keyof GestureThresholds)[]).every(key => {
+    const threshold = thresholds[key];
+    return typeof threshold === 'number' && Number.isFinite(threshold) && threshold > 0;
+  });
+}
+
+// One frame's measurements, taken the same way GestureDetector takes them
+interface PoseSample {
+  fingers: number[];   // index, middle, ring, pinky tip-to-wrist / pip-to-wrist ratios
+  thumb: number;       // thumb spread ratio
+  pinch: number;       // thumb-to-index-tip distance, in reference-hand pixels
+  palm: Point2D;       // palm center, in reference-hand pixels
+}
+
+const FINGERS: [number, number][] = [
+  [LANDMARKS.INDEX_TIP, LANDMARKS.INDEX_PIP],
+  [LANDMARKS.MIDDLE_TIP, LANDMARKS.MIDDLE_PIP],
+  [LANDMARKS.RING_TIP, LANDMARKS.RING_PIP],
+  [LANDMARKS.PINKY_TIP, LANDMARKS.PINKY_PIP]
+];
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function measure(hand: HandLandmarks): PoseSample | null {
+  const lm = hand.landmarks;
+  const wrist = lm[LANDMARKS.WRIST];
+  const handScale = distance(wrist, lm[LANDMARKS.MIDDLE_MCP]);
+  const thumbLength = distance(lm[LANDMARKS.THUMB_TIP], lm[LANDMARKS.THUMB_IP]);
+  if (handScale === 0 || thumbLength === 0) return null;
+
+  const fingers: number[] = [];
+  for (const [tip, pip] of FINGERS) {
+    const pipToWrist = distance(lm[pip], wrist);
+    if (pipToWrist === 0) return null;
+    fingers.push(distance(lm[tip], wrist) / pipToWrist);
+  }
+
+  const toReference = GESTURE.REFERENCE_HAND_SCALE / handScale;
+  const indexMcp = lm[LANDMARKS.INDEX_MCP];
+  const pinkyMcp = lm[LANDMARKS.PINKY_MCP];
+
+  return {
+    fingers,
+    thumb: distance(lm[LANDMARKS.THUMB_TIP], indexMcp) / thumbLength,
+    pinch: distance(lm[LANDMARKS.THUMB_TIP], lm[LANDMARKS.INDEX_TIP]) * toReference,
+    palm: {
+      x: (wrist.x + indexMcp.x + pinkyMcp.x) / 3 * toReference,
+      y: (wrist.y + indexMcp.y + pinkyMcp.y) / 3 * toReference
+    }
+  };
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+// Threshold halfway between the low end of the "high" pose and the high end of the "low" one,
+// with the band reaching each of them, so both calibrated poses are clear-cut (margin 1)
+function split(high: number[], low: number[], what: string): { threshold: number; band: number } {
+  const highEdge = percentile(high, CALIBRATION.PERCENTILE);
+  const lowEdge = percentile(low, 1 - CALIBRATION.PERCENTILE);
+  const band = (highEdge - lowEdge) / 2;
+
+  if (band < CALIBRATION.MIN_BAND) {
+    throw new Error(`Couldn't tell ${what} apart; try again facing your palm to the camera`);
+  }
+  return { threshold: lowEdge + band, band };
+}
+
+// Records each calibration pose, then derives personal thresholds from the recordings
+export class GestureCalibrator {
+  private samples: Record<CalibrationPose, PoseSample[]> = { palm: [], fist: [], pinch: [], point: [] };
+
+  // false if the frame couldn't be measured (e.g. a degenerate hand)
+  addSample(pose: CalibrationPose, hand: HandLandmarks): boolean {
+    const sample = measure(hand);
+    if (!sample) return false;
+
+    this.samples[pose].push(sample);
+    return true;
+  }
+
+  getSampleCount(pose: CalibrationPose): number {
+    return this.samples[pose].length;
+  }
+
+  isComplete(): boolean {
+    return CALIBRATION_STEPS.every(step => this.samples[step.pose].length >= CALIBRATION.SAMPLES);
+  }
+
+  // Throws if the recorded poses are too similar to separate
+  createProfile(name: string): CalibrationProfile {
+    return { name, thresholds: this.deriveThresholds(), createdAt: new Date().toISOString() };
+  }
+
+  private deriveThresholds(): GestureThresholds {
+    const { palm, fist, pinch, point } = this.samples;
+
+    // Fingers: every palm finger and the pointing index are extended; every fist finger and
+    // the other three while pointing are curled
+    const extended = [...palm.flatMap(s => s.fingers), ...point.map(s => s.fingers[0])];
+    const curled = [...fist.flatMap(s => s.fingers), ...point.flatMap(s => s.fingers.slice(1))];
+    const fingers = split(extended, curled, 'open and curled fingers');
+
+    const thumb = split(palm.map(s => s.thumb), fist.map(s => s.thumb), 'an open and a tucked thumb');
+
+    // Pinch: between the closed pinch and the thumb-to-index gap in every other pose. Pinch is
+    // checked before fist, so a fist's tucked thumb must stay outside the threshold too.
+    const open = [...palm, ...fist, ...point].map(s => s.pinch);
+    const pinched = pinch.map(s => s.pinch);
+    const pinchEdge = percentile(pinched, 1 - CALIBRATION.PERCENTILE);
+    const openEdge = percentile(open, CALIBRATION.PERCENTILE);
+    if (openEdge <= pinchEdge) {
+      throw new Error("Couldn't tell a pinch from your other poses; try again with the fingertips touching");
+    }
+
+    return {
+      fingerCurl: fingers.threshold,
+      curlBand: fingers.band,
+      thumbSpread: thumb.threshold,
+      thumbBand: thumb.band,
+      pinch: (pinchEdge + openEdge) / 2,
+      palmStability: Math.max(
+        CALIBRATION.MIN_PALM_STABILITY,
+        this.palmTremor(palm) * CALIBRATION.PALM_STABILITY_MARGIN
+      )
+    };
+  }
+
+  // How far the palm drifts over three frames while the user is trying to hold it still,
+  // measured the way GestureDetector checks palm stability
+  private palmTremor(samples: PoseSample[]): number {
+    const drifts: number[] = [];
+    for (let i = 2; i < samples.length; i++) {
+      const first = samples[i - 2].palm;
+      drifts.push(Math.max(distance(samples[i - 1].palm, first), distance(samples[i].palm, first)));
+    }
+    return drifts.length > 0 ? percentile(drifts, 1 - CALIBRATION.PERCENTILE) : 0;
+  }
+}
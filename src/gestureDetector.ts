@@ -1,54 +1,402 @@
-import { HandLandmarks, GestureType, GestureState, Point2D } from './types';
-import { LANDMARKS, GESTURE } from './constants';
+import { HandLandmarks, GestureType, GestureState, GestureThresholds, Point2D, Point3D } from './types';
+import { LANDMARKS, GESTURE, GESTURE_HYSTERESIS, TEMPLATES, TRAJECTORY, CALIBRATION, DEPTH, SHORTCUTS } from './constants';
+import { TemplateClassifier, extractPoseFeatures } from './gestureTemplates';
+import { TrajectoryRecognizer, isMotionGesture } from './trajectoryRecognizer';
+import { Clock, performanceClock } from './clock';
+
+// Built-in gestures in classification priority order (the first one whose margin is positive
+// wins). Custom gestures are checked right after swipe, best match first.
+const PRIORITY: GestureType[] = ['swipe', 'pinch', 'fist', 'palm', 'draw'];
+
+// Signed margin per gesture: > 0 means its conditions hold, and larger means further from the
+// thresholds. Margins are normalized so 1 is a clear-cut pose and 0 sits right on a boundary.
+type GestureMargins = Partial<Record<GestureType, number>>;
+
+// gesturestart: a gesture begins; gesturehold: every later frame it continues;
+// gestureend: it gives way to another gesture, to no gesture, or the hand is lost
+export type GestureEventType = 'gesturestart' | 'gesturehold' | 'gestureend';
+
+export interface GestureEvent {
+  type: GestureEventType;
+  gesture: GestureType;             // the gesture starting, continuing or ending
+  duration: number;                 // ms since its gesturestart
+  progress: number | null;          // 0..1 towards its hold time, null if it has none
+  completed: boolean;               // true on the one gesturehold where progress reaches 1
+  state: GestureState;              // this frame's full state
+  landmarks: HandLandmarks | null;  // null when the hand was lost
+}
+
+export type GestureEventListener = (event: GestureEvent) => void;
+
+// Hold time in ms for gestures that trigger something after being held, null for the rest
+export type HoldTimeResolver = (gesture: GestureType) => number | null;
 
 export class GestureDetector {
+  private clock: Clock;
   private lastLandmarks: HandLandmarks | null = null;
   private lastTime: number = 0;
-  private gestureStartTime: number = 0;
   private currentGesture: GestureType = 'none';
-  private previousGesture: GestureType = 'none';
+  private pendingGesture: GestureType = 'none';
+  private pendingFrames = 0;
   private palmHistory: Point2D[] = [];
+  private handScale = 0;
+  private thresholds: GestureThresholds = { ...CALIBRATION.DEFAULT_THRESHOLDS };
+  private classifier: TemplateClassifier | null = null;
+  private trajectory = new TrajectoryRecognizer();
   private velocityHistory: Point2D[] = [];
 
+  // Depth, in meters from the camera; null without world landmarks or a focal length
+  private focalLength = 0;
+  private handDepth: number | null = null;
+  private tipDepth: number | null = null;
+  private pushToDraw = false;
+  private restDepth: number | null = null;
+  private pushProgress: number | null = null;
+
+  // Extended-finger count, debounced like gestures
+  private fingerCount = 0;
+  private fingerCountSince = 0;
+  private pendingCount = 0;
+  private pendingCountFrames = 0;
+
+  // What detect() last reported, after transition gating; null until a hand is seen
+  private reportedGesture: GestureType | null = null;
+  private reportedPrevious: GestureType = 'none';
+  private reportedSince = 0;
+  private uncertainSince: number | null = null;  // when a borderline change started holding it back
+  private holdCompleted = false;
+  private holdTimeResolver: HoldTimeResolver = () => null;
+  private listeners: Record<GestureEventType, GestureEventListener[]> = {
+    gesturestart: [],
+    gesturehold: [],
+    gestureend: []
+  };
+
+  constructor(clock: Clock = performanceClock) {
+    this.clock = clock;
+  }
+
+  // Classifies one frame and fires gesture events for it. Passing null means the hand was lost:
+  // its gesture ends and it starts fresh when it comes back.
   detect(landmarks: HandLandmarks | null): GestureState {
-    const now = performance.now();
+    const now = this.clock.now();
     const dt = this.lastTime > 0 ? (now - this.lastTime) / 1000 : 0;
     this.lastTime = now;
 
     if (!landmarks) {
-      return this.createState('none', { x: 0, y: 0 }, 0);
+      return this.loseHand(now);
     }
 
+    this.updateHandScale(landmarks);
+    this.updateDepth(landmarks);
+
     // Calculate hand velocity
     const velocity = this.calculateVelocity(landmarks, dt);
 
-    // Detect gesture
-    const detectedGesture = this.detectGestureType(landmarks, velocity);
+    // Measure how strongly each gesture is present
+    const margins = this.measureGestures(landmarks, velocity);
+    const detectedGesture = this.classify(margins);
+    this.updateFingerCount(landmarks, now);
 
-    // Track gesture duration
-    if (detectedGesture !== this.currentGesture) {
-      this.previousGesture = this.currentGesture;
-      this.currentGesture = detectedGesture;
-      this.gestureStartTime = now;
-    }
+    // A new gesture has to persist for a few frames before it replaces the current one
+    if (detectedGesture === this.currentGesture) {
+      this.pendingFrames = 0;
+    } else {
+      if (detectedGesture === this.pendingGesture) {
+        this.pendingFrames++;
+      } else {
+        this.pendingGesture = detectedGesture;
+        this.pendingFrames = 1;
+      }
 
-    const duration = now - this.gestureStartTime;
+      if (this.pendingFrames >= (this.bandFor(detectedGesture)?.dwellFrames ?? 1)) {
+        this.currentGesture = detectedGesture;
+        this.pendingFrames = 0;
+      }
+    }
 
     this.lastLandmarks = landmarks;
 
-    return this.createState(this.currentGesture, velocity, duration);
+    // Movement gestures (directional swipes, circles, flicks) replace the pose for one frame
+    const motion = this.trajectory.update(
+      now,
+      this.getPalmCenter(landmarks),
+      this.getHandScale(),
+      TRAJECTORY.SUPPRESSED_DURING.includes(this.currentGesture)
+    );
+    const gesture = motion ? motion.gesture : this.currentGesture;
+
+    // Predicted (bridged) frames are less trustworthy than real detections
+    const confidence = (motion ? motion.confidence : this.confidenceFor(this.currentGesture, margins)) *
+      (landmarks.confidence ?? 1);
+
+    return this.report(gesture, velocity, confidence, landmarks, now);
+  }
+
+  on(type: GestureEventType, listener: GestureEventListener): void {
+    this.listeners[type].push(listener);
+  }
+
+  off(type: GestureEventType, listener: GestureEventListener): void {
+    this.listeners[type] = this.listeners[type].filter(l => l !== listener);
+  }
+
+  // Decides which gestures report hold progress; asked each frame, so binding changes apply at once
+  setHoldTimeResolver(resolver: HoldTimeResolver): void {
+    this.holdTimeResolver = resolver;
+  }
+
+  // Exposed so movement-gesture thresholds can be tuned at runtime
+  getTrajectoryRecognizer(): TrajectoryRecognizer {
+    return this.trajectory;
+  }
+
+  // Screen-pixel focal length of the camera (see LandmarkMapper.getFocalLength), for depth
+  setFocalLength(pixels: number): void {
+    this.focalLength = pixels;
+  }
+
+  // Push to draw: the pen goes down when the fingertip is pushed toward the camera instead of
+  // when the hand points. Needs world landmarks; without them pointing still draws.
+  setPushToDraw(enabled: boolean): void {
+    this.pushToDraw = enabled;
+    this.restDepth = null;
+    this.pushProgress = null;
+  }
+
+  isPushToDraw(): boolean {
+    return this.pushToDraw;
+  }
+
+  getThresholds(): GestureThresholds {
+    return { ...this.thresholds };
+  }
+
+  // A calibration profile's personal thresholds, or CALIBRATION.DEFAULT_THRESHOLDS
+  setThresholds(thresholds: GestureThresholds): void {
+    this.thresholds = { ...thresholds };
+  }
+
+  // Custom gestures trained by the user; shared between detectors
+  setClassifier(classifier: TemplateClassifier | null): void {
+    this.classifier = classifier;
+  }
+
+  // Gates gesture changes, updates the reported gesture and fires its events
+  private report(
+    gesture: GestureType,
+    velocity: Point2D,
+    confidence: number,
+    landmarks: HandLandmarks,
+    now: number
+  ): GestureState {
+    const reported = this.reportedGesture;
+
+    // Borderline pose changes (e.g. a half-closed pinch) keep the reported gesture until they
+    // firm up, or until the grace period runs out and it ends. A fresh hand, or a movement
+    // gesture that only lasts a frame, is taken as is.
+    if (
+      reported !== null && gesture !== reported &&
+      !isMotionGesture(gesture) && !isMotionGesture(reported) &&
+      confidence < GESTURE_HYSTERESIS.MIN_TRANSITION_CONFIDENCE
+    ) {
+      this.uncertainSince ??= now;
+      gesture = now - this.uncertainSince < GESTURE_HYSTERESIS.LOW_CONFIDENCE_GRACE ? reported : 'none';
+    } else {
+      this.uncertainSince = null;
+    }
+
+    if (gesture === reported) {
+      const state = this.createState(gesture, velocity, now - this.reportedSince, confidence);
+      if (gesture !== 'none') {
+        this.emit('gesturehold', gesture, state.duration, state, landmarks);
+      }
+      return state;
+    }
+
+    const endedDuration = now - this.reportedSince;
+    this.reportedPrevious = reported ?? 'none';
+    this.reportedGesture = gesture;
+    this.reportedSince = now;
+    this.holdCompleted = false;
+
+    const state = this.createState(gesture, velocity, 0, confidence);
+    if (reported !== null && reported !== 'none') {
+      this.emit('gestureend', reported, endedDuration, state, landmarks);
+    }
+    if (gesture !== 'none') {
+      this.emit('gesturestart', gesture, 0, state, landmarks);
+    }
+    return state;
+  }
+
+  private loseHand(now: number): GestureState {
+    const reported = this.reportedGesture;
+    const endedDuration = now - this.reportedSince;
+
+    this.trajectory.reset();
+    this.lastLandmarks = null;
+    this.velocityHistory = [];
+    this.palmHistory = [];
+    this.currentGesture = 'none';
+    this.pendingGesture = 'none';
+    this.pendingFrames = 0;
+    this.reportedGesture = null;
+    this.reportedPrevious = 'none';
+    this.uncertainSince = null;
+    this.handDepth = null;
+    this.tipDepth = null;
+    this.restDepth = null;
+    this.pushProgress = null;
+    this.fingerCount = 0;
+    this.fingerCountSince = now;
+    this.pendingCountFrames = 0;
+
+    const state = this.createState('none', { x: 0, y: 0 }, 0, 0);
+    if (reported !== null && reported !== 'none') {
+      this.emit('gestureend', reported, endedDuration, state, null);
+    }
+    return state;
   }
 
-  private createState(gesture: GestureType, velocity: Point2D, duration: number): GestureState {
+  private emit(
+    type: GestureEventType,
+    gesture: GestureType,
+    duration: number,
+    state: GestureState,
+    landmarks: HandLandmarks | null
+  ): void {
+    const holdTime = this.holdTimeResolver(gesture);
+    const progress = holdTime === null ? null : holdTime > 0 ? Math.min(1, duration / holdTime) : 1;
+
+    let completed = false;
+    if (type === 'gesturehold' && progress === 1 && !this.holdCompleted) {
+      this.holdCompleted = true;
+      completed = true;
+    }
+
+    const event: GestureEvent = { type, gesture, duration, progress, completed, state, landmarks };
+    this.listeners[type].forEach(listener => listener(event));
+  }
+
+  private createState(gesture: GestureType, velocity: Point2D, duration: number, confidence: number): GestureState {
     return {
       current: gesture,
-      previous: this.previousGesture,
+      previous: this.reportedPrevious,
       duration,
       velocity,
-      confidence: 1.0
+      confidence,
+      depth: this.handDepth,
+      push: this.pushProgress,
+      fingers: this.fingerCount,
+      fingersDuration: this.clock.now() - this.fingerCountSince
     };
   }
 
+  // Enter/exit hysteresis: the current gesture only needs to stay above -exit to hold on,
+  // while any other gesture must clear +enter to take over
+  private classify(margins: GestureMargins): GestureType {
+    for (const gesture of this.priority(margins)) {
+      const margin = margins[gesture] ?? -1;
+      const band = this.bandFor(gesture);
+      const threshold = gesture === this.currentGesture ? -(band?.exit ?? 0) : (band?.enter ?? 0);
+      if (margin > threshold) {
+        return gesture;
+      }
+    }
+    return 'none';
+  }
+
+  private priority(margins: GestureMargins): GestureType[] {
+    const custom = (Object.keys(margins) as GestureType[])
+      .filter(gesture => gesture.startsWith('custom:'))
+      .sort((a, b) => (margins[b] ?? -1) - (margins[a] ?? -1));
+    return [PRIORITY[0], ...custom, ...PRIORITY.slice(1)];
+  }
+
+  private bandFor(gesture: GestureType): { enter: number; exit: number; dwellFrames: number } | undefined {
+    return gesture.startsWith('custom:') ? TEMPLATES.BAND : GESTURE_HYSTERESIS.BANDS[gesture];
+  }
+
+  // Maps a margin to 0..1, with 0.5 right on the threshold
+  private confidenceFor(gesture: GestureType, margins: GestureMargins): number {
+    if (gesture === 'none') {
+      // 'none' is as certain as the closest competing gesture is far from its threshold
+      const closest = Math.max(...Object.values(margins).map(m => m ?? -1));
+      return this.clamp01(0.5 - closest / 2);
+    }
+    return this.clamp01(0.5 + (margins[gesture] ?? -1) / 2);
+  }
+
+  // Wrist-to-middle-MCP length in screen pixels, smoothed so single bad frames don't rescale
+  // every threshold. Near/far hands and small/large hands then behave the same.
+  private updateHandScale(landmarks: HandLandmarks): void {
+    const lm = landmarks.landmarks;
+    const size = this.distance(lm[LANDMARKS.WRIST], lm[LANDMARKS.MIDDLE_MCP]);
+    if (size <= 0) return;
+
+    this.handScale = this.handScale === 0
+      ? size
+      : this.handScale + (size - this.handScale) * GESTURE.HAND_SCALE_SMOOTHING;
+  }
+
+  // Hand distance from its real size (world landmarks) against its size on screen. Both sizes
+  // are taken in the image plane, so tilting the hand shrinks them together.
+  private updateDepth(landmarks: HandLandmarks): void {
+    const world = landmarks.worldLandmarks;
+    const lm = landmarks.landmarks;
+    const screenSize = this.distance(lm[LANDMARKS.WRIST], lm[LANDMARKS.MIDDLE_MCP]);
+    const worldSize = world ? this.distance(world[LANDMARKS.WRIST], world[LANDMARKS.MIDDLE_MCP]) : 0;
+
+    if (!world || this.focalLength <= 0 || screenSize <= 0 || worldSize <= 0) {
+      this.handDepth = null;
+      this.tipDepth = null;
+      return;
+    }
+
+    const hand = this.focalLength * worldSize / screenSize;
+    // World z is relative to the hand and grows away from the camera
+    const palmZ = (world[LANDMARKS.WRIST].z + world[LANDMARKS.MIDDLE_MCP].z) / 2;
+    const tip = hand + world[LANDMARKS.INDEX_TIP].z - palmZ;
+
+    this.handDepth = this.handDepth === null ? hand : this.handDepth + (hand - this.handDepth) * DEPTH.SMOOTHING;
+    this.tipDepth = this.tipDepth === null ? tip : this.tipDepth + (tip - this.tipDepth) * DEPTH.SMOOTHING;
+  }
+
+  // Push-to-draw margin: > 0 once the fingertip is past a plane PUSH_DISTANCE in front of where
+  // the hand rests, null when push to draw is off or depth is unknown
+  private pushMargin(): number | null {
+    if (!this.pushToDraw || this.tipDepth === null) {
+      this.pushProgress = null;
+      return null;
+    }
+
+    // The rest depth jumps back with the hand but follows it forward only slowly, and not at
+    // all while drawing, so a deliberate push isn't absorbed into the rest position
+    if (this.restDepth === null || this.tipDepth > this.restDepth) {
+      this.restDepth = this.tipDepth;
+    } else if (this.currentGesture !== 'draw') {
+      this.restDepth += (this.tipDepth - this.restDepth) * DEPTH.REST_FOLLOW;
+    }
+
+    const pushed = this.restDepth - this.tipDepth;
+    this.pushProgress = this.clamp01(pushed / DEPTH.PUSH_DISTANCE);
+    return (pushed - DEPTH.PUSH_DISTANCE) / DEPTH.PUSH_BAND;
+  }
+
+  getHandScale(): number {
+    return this.handScale || GESTURE.REFERENCE_HAND_SCALE;
+  }
+
+  // GESTURE pixel thresholds are tuned for a hand of REFERENCE_HAND_SCALE; scale them to this one
+  private scaled(pixels: number): number {
+    return pixels * this.getHandScale() / GESTURE.REFERENCE_HAND_SCALE;
+  }
+
+  private clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+
   private calculateVelocity(landmarks: HandLandmarks, dt: number): Point2D {
     if (!this.lastLandmarks || dt === 0) {
       return { x: 0, y: 0 };
@@ -90,50 +438,69 @@ export class GestureDetector {
     };
   }
 
-  private detectGestureType(landmarks: HandLandmarks, velocity: Point2D): GestureType {
+  private measureGestures(landmarks: HandLandmarks, velocity: Point2D): GestureMargins {
     const lm = landmarks.landmarks;
 
-    // Check for swipe first (fast horizontal movement)
+    // Swipe: fast, mostly horizontal movement
     const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
-    if (speed > GESTURE.SWIPE_VELOCITY && Math.abs(velocity.x) > Math.abs(velocity.y) * 1.5) {
-      return 'swipe';
+    const horizontal = speed > 0 ? (Math.abs(velocity.x) - Math.abs(velocity.y) * 1.5) / speed : -1;
+    const swipeVelocity = this.scaled(GESTURE.SWIPE_VELOCITY);
+    const swipe = Math.min((speed - swipeVelocity) / swipeVelocity, horizontal);
+
+    // Pinch: thumb tip close to index tip
+    const pinchDistance = this.distance(lm[LANDMARKS.THUMB_TIP], lm[LANDMARKS.INDEX_TIP]);
+    const pinchThreshold = this.scaled(this.thresholds.pinch);
+    let pinch = (pinchThreshold - pinchDistance) / pinchThreshold;
+
+    // With world landmarks the tips must be close in 3D as well, so a thumb that only overlaps
+    // the index finger on screen (one in front of the other) isn't a pinch
+    const world = landmarks.worldLandmarks;
+    if (world) {
+      const worldScale = this.distance3D(world[LANDMARKS.WRIST], world[LANDMARKS.MIDDLE_MCP]);
+      const ratio = this.thresholds.pinch / GESTURE.REFERENCE_HAND_SCALE;
+      if (worldScale > 0) {
+        const worldPinch = this.distance3D(world[LANDMARKS.THUMB_TIP], world[LANDMARKS.INDEX_TIP]) / worldScale;
+        pinch = Math.min(pinch, (ratio - worldPinch) / ratio);
+      }
     }
 
-    // Check pinch (thumb tip close to index tip)
-    const pinchDistance = this.distance(
-      lm[LANDMARKS.THUMB_TIP],
-      lm[LANDMARKS.INDEX_TIP]
-    );
-    if (pinchDistance < GESTURE.PINCH_THRESHOLD) {
-      return 'pinch';
-    }
+    const index = this.fingerExtension(landmarks, LANDMARKS.INDEX_TIP, LANDMARKS.INDEX_PIP);
+    const middle = this.fingerExtension(landmarks, LANDMARKS.MIDDLE_TIP, LANDMARKS.MIDDLE_PIP);
+    const ring = this.fingerExtension(landmarks, LANDMARKS.RING_TIP, LANDMARKS.RING_PIP);
+    const pinky = this.fingerExtension(landmarks, LANDMARKS.PINKY_TIP, LANDMARKS.PINKY_PIP);
+    const thumb = this.thumbExtension(landmarks);
 
-    // Check for fist (all fingers curled)
-    if (this.isFist(landmarks)) {
-      return 'fist';
-    }
+    // Fist: all fingers curled
+    const fist = Math.min(-index, -middle, -ring, -pinky, -thumb);
 
-    // Check for open palm (all fingers extended)
-    if (this.isOpenPalm(landmarks)) {
-      // Check if palm is stable (not moving much)
+    // Open palm: all fingers extended and the hand held still
+    const openHand = Math.min(index, middle, ring, pinky, thumb);
+    const openThreshold = this.currentGesture === 'palm' ? -(GESTURE_HYSTERESIS.BANDS.palm?.exit ?? 0) : 0;
+    if (openHand > openThreshold) {
       this.palmHistory.push(this.getPalmCenter(landmarks));
       if (this.palmHistory.length > 6) {
         this.palmHistory.shift();
       }
-
-      if (this.palmHistory.length >= 3 && this.isPalmStable()) {
-        return 'palm';
-      }
     } else {
       this.palmHistory = [];
     }
+    const palm = Math.min(openHand, this.palmStability());
 
-    // Check for draw mode (index finger extended) - check this early for responsiveness
-    if (this.isPointingIndex(landmarks)) {
-      return 'draw';
+    // Draw: index finger extended, other fingers curled; or, with push to draw, any hand pushed
+    // past the plane (the poses above still take priority)
+    const draw = this.pushMargin() ?? Math.min(index, -middle, -ring, -pinky);
+
+    const margins: GestureMargins = { swipe, pinch, fist, palm, draw };
+
+    // Custom poses: 1 on a recorded sample, 0 at TEMPLATES.MAX_DISTANCE
+    const features = this.classifier?.getGestures().length ? extractPoseFeatures(landmarks) : null;
+    if (this.classifier && features) {
+      for (const match of this.classifier.match(features)) {
+        margins[match.gesture] = (TEMPLATES.MAX_DISTANCE - match.distance) / TEMPLATES.MAX_DISTANCE;
+      }
     }
 
-    return 'none';
+    return margins;
   }
 
   private distance(p1: Point2D, p2: Point2D): number {
@@ -142,146 +509,75 @@ export class GestureDetector {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
-  private isFingerExtended(landmarks: HandLandmarks, tipIdx: number, pipIdx: number, _mcpIdx: number): boolean {
-    const lm = landmarks.landmarks;
-    const tip = lm[tipIdx];
-    const pip = lm[pipIdx];
-
-    // Finger is extended if tip is further from palm than pip
-    // Using y-coordinate primarily since fingers extend upward
-    const tipToPalm = this.distance(tip, lm[LANDMARKS.WRIST]);
-    const pipToPalm = this.distance(pip, lm[LANDMARKS.WRIST]);
-
-    return tipToPalm > pipToPalm * GESTURE.FINGER_CURL_THRESHOLD;
-  }
-
-  private isThumbExtended(landmarks: HandLandmarks): boolean {
-    const lm = landmarks.landmarks;
-    const thumbTip = lm[LANDMARKS.THUMB_TIP];
-    const thumbIp = lm[LANDMARKS.THUMB_IP];
-    const indexMcp = lm[LANDMARKS.INDEX_MCP];
-
-    // Thumb is extended if tip is far from index MCP
-    const distFromIndex = this.distance(thumbTip, indexMcp);
-    const thumbLength = this.distance(thumbTip, thumbIp);
-
-    return distFromIndex > thumbLength * 1.5;
+  private distance3D(p1: Point3D, p2: Point3D): number {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y, p1.z - p2.z);
   }
 
-  private isPointingIndex(landmarks: HandLandmarks): boolean {
-    const indexExtended = this.isFingerExtended(
-      landmarks,
-      LANDMARKS.INDEX_TIP,
-      LANDMARKS.INDEX_PIP,
-      LANDMARKS.INDEX_MCP
-    );
-
-    const middleCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.MIDDLE_TIP,
-      LANDMARKS.MIDDLE_PIP,
-      LANDMARKS.MIDDLE_MCP
-    );
-
-    const ringCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.RING_TIP,
-      LANDMARKS.RING_PIP,
-      LANDMARKS.RING_MCP
-    );
+  // A new count has to persist for a few frames, so a finger passing the threshold on its way
+  // up or down doesn't flicker through the counts in between
+  private updateFingerCount(landmarks: HandLandmarks, now: number): void {
+    const fingers: [number, number][] = [
+      [LANDMARKS.INDEX_TIP, LANDMARKS.INDEX_PIP],
+      [LANDMARKS.MIDDLE_TIP, LANDMARKS.MIDDLE_PIP],
+      [LANDMARKS.RING_TIP, LANDMARKS.RING_PIP],
+      [LANDMARKS.PINKY_TIP, LANDMARKS.PINKY_PIP]
+    ];
+    const count = fingers.filter(([tip, pip]) => this.fingerExtension(landmarks, tip, pip) > 0).length +
+      (this.thumbExtension(landmarks) > 0 ? 1 : 0);
+
+    if (count === this.fingerCount) {
+      this.pendingCountFrames = 0;
+      return;
+    }
 
-    const pinkyCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.PINKY_TIP,
-      LANDMARKS.PINKY_PIP,
-      LANDMARKS.PINKY_MCP
-    );
+    if (count === this.pendingCount) {
+      this.pendingCountFrames++;
+    } else {
+      this.pendingCount = count;
+      this.pendingCountFrames = 1;
+    }
 
-    return indexExtended && middleCurled && ringCurled && pinkyCurled;
+    if (this.pendingCountFrames >= SHORTCUTS.COUNT_DWELL_FRAMES) {
+      this.fingerCount = count;
+      this.fingerCountSince = now;
+      this.pendingCountFrames = 0;
+    }
   }
 
-  private isOpenPalm(landmarks: HandLandmarks): boolean {
-    const indexExtended = this.isFingerExtended(
-      landmarks,
-      LANDMARKS.INDEX_TIP,
-      LANDMARKS.INDEX_PIP,
-      LANDMARKS.INDEX_MCP
-    );
-
-    const middleExtended = this.isFingerExtended(
-      landmarks,
-      LANDMARKS.MIDDLE_TIP,
-      LANDMARKS.MIDDLE_PIP,
-      LANDMARKS.MIDDLE_MCP
-    );
-
-    const ringExtended = this.isFingerExtended(
-      landmarks,
-      LANDMARKS.RING_TIP,
-      LANDMARKS.RING_PIP,
-      LANDMARKS.RING_MCP
-    );
-
-    const pinkyExtended = this.isFingerExtended(
-      landmarks,
-      LANDMARKS.PINKY_TIP,
-      LANDMARKS.PINKY_PIP,
-      LANDMARKS.PINKY_MCP
-    );
+  // > 0 when extended, < 0 when curled, scaled so one curl band away is +/-1
+  private fingerExtension(landmarks: HandLandmarks, tipIdx: number, pipIdx: number): number {
+    const lm = landmarks.landmarks;
 
-    const thumbExtended = this.isThumbExtended(landmarks);
+    // Finger is extended if tip is further from palm than pip
+    const tipToPalm = this.distance(lm[tipIdx], lm[LANDMARKS.WRIST]);
+    const pipToPalm = this.distance(lm[pipIdx], lm[LANDMARKS.WRIST]);
+    if (pipToPalm === 0) return 0;
 
-    return indexExtended && middleExtended && ringExtended && pinkyExtended && thumbExtended;
+    return (tipToPalm / pipToPalm - this.thresholds.fingerCurl) / this.thresholds.curlBand;
   }
 
-  private isFist(landmarks: HandLandmarks): boolean {
-    const indexCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.INDEX_TIP,
-      LANDMARKS.INDEX_PIP,
-      LANDMARKS.INDEX_MCP
-    );
-
-    const middleCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.MIDDLE_TIP,
-      LANDMARKS.MIDDLE_PIP,
-      LANDMARKS.MIDDLE_MCP
-    );
-
-    const ringCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.RING_TIP,
-      LANDMARKS.RING_PIP,
-      LANDMARKS.RING_MCP
-    );
-
-    const pinkyCurled = !this.isFingerExtended(
-      landmarks,
-      LANDMARKS.PINKY_TIP,
-      LANDMARKS.PINKY_PIP,
-      LANDMARKS.PINKY_MCP
-    );
+  private thumbExtension(landmarks: HandLandmarks): number {
+    const lm = landmarks.landmarks;
+    const thumbTip = lm[LANDMARKS.THUMB_TIP];
 
-    const thumbCurled = !this.isThumbExtended(landmarks);
+    // Thumb is extended if tip is far from index MCP
+    const distFromIndex = this.distance(thumbTip, lm[LANDMARKS.INDEX_MCP]);
+    const thumbLength = this.distance(thumbTip, lm[LANDMARKS.THUMB_IP]);
+    if (thumbLength === 0) return 0;
 
-    return indexCurled && middleCurled && ringCurled && pinkyCurled && thumbCurled;
+    return (distFromIndex / thumbLength - this.thresholds.thumbSpread) / this.thresholds.thumbBand;
   }
 
-  private isPalmStable(): boolean {
-    if (this.palmHistory.length < 3) return false;
+  // > 0 while the palm has stayed within the stability threshold over the last few frames
+  private palmStability(): number {
+    if (this.palmHistory.length < 3) return -1;
 
     const recent = this.palmHistory.slice(-3);
     const first = recent[0];
+    const maxDrift = Math.max(...recent.map(point => this.distance(point, first)));
 
-    for (const point of recent) {
-      const dist = this.distance(point, first);
-      if (dist > GESTURE.PALM_STABILITY_THRESHOLD) {
-        return false;
-      }
-    }
-
-    return true;
+    const threshold = this.scaled(this.thresholds.palmStability);
+    return (threshold - maxDrift) / threshold;
   }
 
   getIndexTip(landmarks: HandLandmarks): Point2D {
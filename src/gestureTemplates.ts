@@ -0,0 +1,121 @@
+import { CustomGesture, CustomGestureLibrary, GestureType, HandLandmarks } from './types';
+import { LANDMARKS, RECORDING } from './constants';
+
+// Bump when the feature layout changes; import rejects versions it doesn't know
+export const TEMPLATE_VERSION = 1;
+
+// Every landmark but the wrist, x and y
+export const POSE_FEATURE_LENGTH = LANDMARKS.PINKY_TIP * 2;
+
+export interface TemplateMatch {
+  gesture: GestureType;
+  distance: number;   // RMS landmark distance, in hand-size units
+}
+
+// Pose features: every landmark relative to the wrist, scaled by the wrist-to-middle-knuckle
+// length and mirrored for left hands. Orientation is kept so thumbs-up and thumbs-down differ.
+export function extractPoseFeatures(hand: HandLandmarks): number[] | null {
+  const lm = hand.landmarks;
+  const wrist = lm[LANDMARKS.WRIST];
+  const middleMcp = lm[LANDMARKS.MIDDLE_MCP];
+  const scale = Math.hypot(middleMcp.x - wrist.x, middleMcp.y - wrist.y);
+  if (scale === 0) return null;
+
+  const mirror = hand.handedness === 'left' ? -1 : 1;
+  const features: number[] = [];
+  for (let i = 1; i < lm.length; i++) {
+    features.push(mirror * (lm[i].x - wrist.x) / scale, (lm[i].y - wrist.y) / scale);
+  }
+  return features;
+}
+
+function rmsDistance(a: number[], b: number[]): number {
+  if (a.length !== b.length) return Infinity;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    sum += (a[i] - b[i]) ** 2 + (a[i + 1] - b[i + 1]) ** 2;
+  }
+  return Math.sqrt(sum / (a.length / 2));
+}
+
+// Nearest-neighbor match against every recorded sample of every custom gesture
+export class TemplateClassifier {
+  private gestures: CustomGesture[] = [];
+
+  setGestures(gestures: CustomGesture[]): void {
+    this.gestures = gestures;
+  }
+
+  getGestures(): CustomGesture[] {
+    return this.gestures;
+  }
+
+  // Distance to the nearest sample of each custom gesture, closest first
+  match(features: number[]): TemplateMatch[] {
+    return this.gestures
+      .map(gesture => ({
+        gesture: gesture.id,
+        distance: Math.min(...gesture.samples.map(sample => rmsDistance(features, sample)))
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+}
+
+// Lowercase slug so ids survive export/import and stay readable in saved bindings
+export function customGestureId(name: string): GestureType {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `custom:${slug || 'gesture'}`;
+}
+
+export function serializeCustomGestures(gestures: CustomGesture[]): string {
+  const library: CustomGestureLibrary = { version: TEMPLATE_VERSION, gestures };
+  return JSON.stringify(library);
+}
+
+export function parseCustomGestures(json: string | object): CustomGesture[] {
+  const data = (typeof json === 'string' ? JSON.parse(json) : json) as Partial<CustomGestureLibrary>;
+
+  if (typeof data.version !== 'number') {
+    throw new Error('Not a custom gesture file');
+  }
+  if (data.version > TEMPLATE_VERSION) {
+    throw new Error(`Unsupported gesture file version ${data.version}`);
+  }
+  if (!Array.isArray(data.gestures)) {
+    throw new Error('Gesture file has no gestures');
+  }
+
+  const gestures = data.gestures.filter(g =>
+    typeof g.name === 'string' &&
+    typeof g.id === 'string' && g.id.startsWith('custom:') &&
+    Array.isArray(g.samples) && g.samples.length > 0
+  );
+
+  // A malformed sample would poison every match, so the whole file is refused
+  for (const gesture of gestures) {
+    if (!gesture.samples.every(isPoseSample)) {
+      throw new Error(`Gesture "${gesture.name}" has invalid samples`);
+    }
+  }
+  return gestures;
+}
+
+function isPoseSample(sample: unknown): sample is number[] {
+  return Array.isArray(sample) &&
+    sample.length === POSE_FEATURE_LENGTH &&
+    sample.every(value => typeof value === 'number' && Number.isFinite(value));
+}
+
+export function downloadCustomGestures(gestures: CustomGesture[]): void {
+  const blob = new Blob([serializeCustomGestures(gestures)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'air-canvas-gestures.json';
+  link.click();
+
+  // The browser may still be reading the file after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), RECORDING.REVOKE_DELAY);
+}
@@ -1,54 +1,63 @@
-import { Hands, Results } from '@mediapipe/hands';
-import { HandLandmarks, Point2D } from './types';
+import { HandLandmarks, LandmarkFrame, Point2D } from './types';
+import { MAPPING } from './constants';
+import { LandmarkMapper } from './landmarkMapping';
+import { LandmarkPredictor } from './landmarkPredictor';
+import { LandmarkSource, WebcamLandmarkSource } from './landmarkSource';
+import { SessionRecorder } from './sessionRecorder';
 
-export type HandResultsCallback = (landmarks: HandLandmarks | null) => void;
+// Called once per frame with every tracked hand (empty when no hands are visible)
+export type HandResultsCallback = (hands: HandLandmarks[]) => void;
 
 export class HandTracker {
-  private hands: Hands;
-  private videoElement: HTMLVideoElement;
+  private webcamSource: WebcamLandmarkSource;
+  private source: LandmarkSource | null = null;
+  private recorder: SessionRecorder | null = null;
   private callback: HandResultsCallback | null = null;
   private isRunning = false;
-  private animationId: number | null = null;
-  private canvasWidth = 640;
-  private canvasHeight = 480;
+  private mapper = new LandmarkMapper();
+  private predictor = new LandmarkPredictor();
 
   constructor(videoElement: HTMLVideoElement) {
-    this.videoElement = videoElement;
+    this.webcamSource = new WebcamLandmarkSource(videoElement);
+  }
 
-    this.hands = new Hands({
-      locateFile: (file) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      }
-    });
+  getWebcamSource(): WebcamLandmarkSource {
+    return this.webcamSource;
+  }
 
-    this.hands.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 1,  // Better accuracy model (less jitter)
-      minDetectionConfidence: 0.6,
-      minTrackingConfidence: 0.5
-    });
+  setCanvasSize(width: number, height: number): void {
+    this.mapper.setViewportSize(width, height);
+  }
 
-    this.hands.onResults((results) => this.onResults(results));
+  // Shared so overlays can map between screen and camera space the same way
+  getMapper(): LandmarkMapper {
+    return this.mapper;
   }
 
-  setCanvasSize(width: number, height: number): void {
-    this.canvasWidth = width;
-    this.canvasHeight = height;
+  getPredictor(): LandmarkPredictor {
+    return this.predictor;
   }
 
-  private onResults(results: Results): void {
+  // Every raw frame is passed to the recorder before conversion
+  attachRecorder(recorder: SessionRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  private onResults(frame: LandmarkFrame): void {
+    this.recorder?.capture(frame);
+
     if (!this.callback) return;
 
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      // Use the first detected hand (could enhance to prefer right hand)
-      const landmarks = results.multiHandLandmarks[0];
-      const worldLandmarks = results.multiHandWorldLandmarks?.[0];
+    this.mapper.setImageSize(
+      frame.imageWidth ?? MAPPING.FALLBACK_IMAGE_WIDTH,
+      frame.imageHeight ?? MAPPING.FALLBACK_IMAGE_HEIGHT
+    );
 
-      // Convert normalized coordinates to canvas coordinates
-      const convertedLandmarks: Point2D[] = landmarks.map((lm) => ({
-        x: (1 - lm.x) * this.canvasWidth,  // Mirror horizontally
-        y: lm.y * this.canvasHeight
-      }));
+    const hands = frame.multiHandLandmarks.map((landmarks, i): HandLandmarks => {
+      const worldLandmarks = frame.multiHandWorldLandmarks?.[i];
+
+      // Convert normalized coordinates to canvas coordinates (mirrored, aspect-correct)
+      const convertedLandmarks: Point2D[] = landmarks.map((lm) => this.mapper.toScreen(lm));
 
       const convertedWorldLandmarks = worldLandmarks?.map((lm) => ({
         x: -lm.x,  // Mirror
@@ -56,66 +65,39 @@ export class HandTracker {
         z: lm.z
       }));
 
-      this.callback({
+      return {
         landmarks: convertedLandmarks,
-        worldLandmarks: convertedWorldLandmarks
-      });
-    } else {
-      this.callback(null);
-    }
+        worldLandmarks: convertedWorldLandmarks,
+        handedness: frame.multiHandedness?.[i]
+      };
+    });
+
+    // Fill short tracking dropouts so strokes don't break mid-shape
+    this.callback(this.predictor.process(hands, frame.timestamp));
   }
 
-  async start(callback: HandResultsCallback): Promise<void> {
+  // Defaults to the webcam; pass a replay or synthetic source to run without a camera
+  async start(callback: HandResultsCallback, source: LandmarkSource = this.webcamSource): Promise<void> {
     this.callback = callback;
 
     if (this.isRunning) return;
 
     try {
-      // Request camera access - balance between speed and detection quality
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-          frameRate: { ideal: 30 },  // 30fps is enough for hand tracking
-          facingMode: 'user'
-        }
-      });
-
-      this.videoElement.srcObject = stream;
-      await this.videoElement.play();
-
+      this.source = source;
+      await source.start((frame) => this.onResults(frame));
       this.isRunning = true;
-
-      // Use direct requestAnimationFrame for lower latency
-      const processFrame = async () => {
-        if (!this.isRunning) return;
-
-        if (this.videoElement.readyState >= 2) {
-          await this.hands.send({ image: this.videoElement });
-        }
-
-        this.animationId = requestAnimationFrame(processFrame);
-      };
-
-      processFrame();
     } catch (error) {
       console.error('Failed to start hand tracking:', error);
+      this.source = null;
       throw error;
     }
   }
 
   stop(): void {
     this.isRunning = false;
-
-    if (this.animationId) {
-      cancelAnimationFrame(this.animationId);
-      this.animationId = null;
-    }
-
-    const stream = this.videoElement.srcObject as MediaStream;
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-    }
+    this.source?.stop();
+    this.source = null;
+    this.predictor.reset();
   }
 
   isActive(): boolean {
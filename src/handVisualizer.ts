@@ -1,5 +1,5 @@
-import { HandLandmarks, GestureState } from './types';
-import { LANDMARKS, VISUAL } from './constants';
+import { HandLandmarks, GestureState, Point2D } from './types';
+import { LANDMARKS, SHORTCUTS, VISUAL } from './constants';
 
 // Hand skeleton connections
 const HAND_CONNECTIONS = [
@@ -34,10 +34,24 @@ const HAND_CONNECTIONS = [
   [LANDMARKS.RING_MCP, LANDMARKS.PINKY_MCP]
 ];
 
+// Finger-count shortcut options, drawn in a row above the hand picking from them
+export interface ShortcutOption {
+  label: string;
+  color: string;
+}
+
+export interface ShortcutMenu {
+  hand: HandLandmarks;
+  options: ShortcutOption[];
+  highlighted: number | null;   // option the finger count points at
+  progress: number;             // 0..1 towards picking it
+}
+
 export class HandVisualizer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private cursorPulse = 0;
+  private confirmation: { option: ShortcutOption; at: Point2D; remaining: number } | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -55,30 +69,131 @@ export class HandVisualizer {
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
   }
 
+  // Skeletons are drawn for every hand; the cursor only follows the drawing hand
   render(
-    landmarks: HandLandmarks | null,
+    hands: HandLandmarks[],
+    cursorHand: HandLandmarks | null,
     gestureState: GestureState,
     currentColor: string,
-    deltaTime: number
+    deltaTime: number,
+    menu: ShortcutMenu | null = null
   ): void {
     this.clear();
 
-    if (!landmarks) return;
+    // The confirmation outlives the menu, which closes as soon as something is picked
+    if (this.confirmation) {
+      this.confirmation.remaining -= deltaTime * 1000;
+      if (this.confirmation.remaining > 0) {
+        this.renderConfirmation();
+      } else {
+        this.confirmation = null;
+      }
+    }
+
+    if (hands.length === 0) return;
 
     // Update cursor pulse
     this.cursorPulse += deltaTime * VISUAL.CURSOR_PULSE_SPEED;
 
-    // Render hand skeleton (faint)
-    this.renderSkeleton(landmarks);
+    if (menu) {
+      this.renderShortcutMenu(menu);
+    }
+
+    // Render hand skeletons (faint)
+    for (const hand of hands) {
+      this.renderSkeleton(hand);
+    }
+
+    if (!cursorHand) return;
 
     // Render cursor at index fingertip
-    const indexTip = landmarks.landmarks[LANDMARKS.INDEX_TIP];
+    const indexTip = cursorHand.landmarks[LANDMARKS.INDEX_TIP];
     this.renderCursor(indexTip.x, indexTip.y, currentColor, gestureState);
   }
 
+  // Shows what a finger-count shortcut just picked, above the hand that picked it
+  confirmShortcut(option: ShortcutOption, hand: HandLandmarks): void {
+    this.confirmation = { option, at: this.menuAnchor(hand), remaining: SHORTCUTS.CONFIRM_TIME };
+  }
+
+  // Above the middle fingertip, clear of whatever fingers are held up
+  private menuAnchor(hand: HandLandmarks): Point2D {
+    const tip = hand.landmarks[LANDMARKS.MIDDLE_TIP];
+    const wrist = hand.landmarks[LANDMARKS.WRIST];
+    const handSize = Math.hypot(tip.x - wrist.x, tip.y - wrist.y);
+    return { x: wrist.x, y: Math.min(tip.y, wrist.y) - handSize * 0.3 - VISUAL.SHORTCUT_SIZE };
+  }
+
+  private renderShortcutMenu(menu: ShortcutMenu): void {
+    const anchor = this.menuAnchor(menu.hand);
+    const size = VISUAL.SHORTCUT_SIZE;
+    const spacing = size * 2.4;
+    const left = anchor.x - spacing * (menu.options.length - 1) / 2;
+
+    this.ctx.save();
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+
+    menu.options.forEach((option, i) => {
+      const x = left + i * spacing;
+      const highlighted = i === menu.highlighted;
+
+      // Chip in the option's color, numbered with the fingers that pick it
+      this.ctx.globalAlpha = highlighted ? 1 : 0.6;
+      this.ctx.fillStyle = option.color;
+      this.ctx.beginPath();
+      this.ctx.arc(x, anchor.y, highlighted ? size * 1.2 : size, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      this.ctx.fillStyle = '#1e293b';
+      this.ctx.font = `600 ${Math.round(size * 0.9)}px sans-serif`;
+      this.ctx.fillText(String(i + 1), x, anchor.y);
+
+      this.ctx.fillStyle = 'white';
+      this.ctx.font = `${Math.round(size * 0.7)}px sans-serif`;
+      this.ctx.fillText(option.label, x, anchor.y + size * 2);
+
+      // Hold progress fills a ring around the highlighted option
+      if (highlighted && menu.progress > 0) {
+        this.ctx.strokeStyle = 'white';
+        this.ctx.lineWidth = 3;
+        this.ctx.beginPath();
+        this.ctx.arc(x, anchor.y, size * 1.5, -Math.PI / 2, -Math.PI / 2 + menu.progress * Math.PI * 2);
+        this.ctx.stroke();
+      }
+    });
+
+    this.ctx.restore();
+  }
+
+  private renderConfirmation(): void {
+    if (!this.confirmation) return;
+    const { option, at, remaining } = this.confirmation;
+    const fade = Math.min(1, remaining / (SHORTCUTS.CONFIRM_TIME / 2));
+    const size = VISUAL.SHORTCUT_SIZE * 1.5;
+
+    this.ctx.save();
+    this.ctx.globalAlpha = fade;
+    this.ctx.fillStyle = option.color;
+    this.ctx.shadowColor = option.color;
+    this.ctx.shadowBlur = 20;
+    this.ctx.beginPath();
+    this.ctx.arc(at.x, at.y, size, 0, Math.PI * 2);
+    this.ctx.fill();
+
+    this.ctx.shadowBlur = 0;
+    this.ctx.fillStyle = 'white';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.font = `600 ${Math.round(VISUAL.SHORTCUT_SIZE)}px sans-serif`;
+    this.ctx.fillText(option.label, at.x, at.y + size * 1.6);
+    this.ctx.restore();
+  }
+
   private renderSkeleton(landmarks: HandLandmarks): void {
     this.ctx.save();
-    this.ctx.globalAlpha = VISUAL.HAND_SKELETON_OPACITY;
+    // Predicted (bridged) frames fade with their confidence
+    this.ctx.globalAlpha = VISUAL.HAND_SKELETON_OPACITY * (landmarks.confidence ?? 1);
     this.ctx.strokeStyle = 'white';
     this.ctx.lineWidth = VISUAL.HAND_SKELETON_WIDTH;
     this.ctx.lineCap = 'round';
@@ -144,6 +259,17 @@ export class HandVisualizer {
     this.ctx.arc(x, y, VISUAL.CURSOR_SIZE / 4, 0, Math.PI * 2);
     this.ctx.fill();
 
+    // Push to draw: a ring that closes in on the cursor as the fingertip nears the drawing plane
+    if (gestureState.push !== null && gestureState.current !== 'draw') {
+      const radius = VISUAL.CURSOR_SIZE / 2 + (VISUAL.CURSOR_GLOW_SIZE - VISUAL.CURSOR_SIZE / 2) * (1 - gestureState.push);
+      this.ctx.shadowBlur = 0;
+      this.ctx.strokeStyle = this.hexToRgba(color, 0.4 + gestureState.push * 0.6);
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+      this.ctx.stroke();
+    }
+
     this.ctx.restore();
   }
 
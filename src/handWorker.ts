@@ -0,0 +1,128 @@
+// Hand inference worker. This is a classic worker: MediaPipe's solution loads its WASM
+// with importScripts, so only type imports are allowed here.
+import type { Hands, Results } from '@mediapipe/hands';
+import type { HandWorkerRequest, HandWorkerResponse } from './types';
+
+// Module config the WASM loaders read from the global scope. On a page MediaPipe sets it
+// itself; in a worker it doesn't, so the .wasm and .data files would resolve next to this script
+interface SolutionModuleConfig {
+  locateFile(file: string): string;
+}
+
+// The parts of MediaPipe's solution that its worker branch leaves unset. These are minified
+// field names from 0.4.1675469240 and change with any rebuild, which is why package.json pins
+// that exact version; check them (and the handWorker tests' fake) before upgrading.
+interface SolutionInternals {
+  h?: {
+    m?: OffscreenCanvas;            // the WASM module's GL canvas
+    K?: WebGLRenderingContext;      // context used to upload input frames
+  };
+}
+
+interface HandWorkerScope {
+  Hands: typeof Hands;
+  createMediapipeSolutionsPackedAssets?: SolutionModuleConfig;
+  importScripts(...urls: string[]): void;
+  postMessage(message: HandWorkerResponse): void;
+  onmessage: ((event: MessageEvent<HandWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as HandWorkerScope;
+
+let hands: Hands | null = null;
+let latestResults: Results | null = null;
+let baseUrl = '';
+let fileUrls: Record<string, string> = {};
+
+// Files prepared after init (e.g. the lite model) arrive with later 'options' messages
+const locateFile = (file: string) => fileUrls[file] ?? `${baseUrl}${file}`;
+
+async function init(message: Extract<HandWorkerRequest, { type: 'init' }>): Promise<void> {
+  baseUrl = message.baseUrl;
+  fileUrls = message.fileUrls;
+
+  scope.importScripts(locateFile('hands.js'));
+  scope.createMediapipeSolutionsPackedAssets = { locateFile };
+
+  hands = new scope.Hands({ locateFile });
+  hands.setOptions(message.options);
+  hands.onResults((results) => {
+    latestResults = results;
+  });
+
+  await hands.initialize();
+  bindUploadContext(hands);
+}
+
+// The worker branch creates its GL context on an OffscreenCanvas but never keeps it for
+// uploading frames, so the first send() would fail. Asking the canvas again returns that context.
+function bindUploadContext(hands: Hands): void {
+  const solution = (hands as unknown as SolutionInternals).h;
+  const canvas = solution?.m;
+  if (!solution || !(canvas instanceof OffscreenCanvas)) {
+    throw new Error('Unsupported MediaPipe Hands build for the worker');
+  }
+
+  solution.K ??= (canvas.getContext('webgl2') ?? canvas.getContext('webgl') ?? undefined) as
+    WebGLRenderingContext | undefined;
+  if (!solution.K) throw new Error('No WebGL context for hand inference in the worker');
+}
+
+// Always answers a frame with exactly one message so the main thread knows it can send the next
+async function processFrame(image: ImageBitmap, timestamp: number): Promise<void> {
+  if (!hands) {
+    image.close();
+    scope.postMessage({ type: 'error', message: 'Worker not initialized' });
+    return;
+  }
+
+  latestResults = null;
+
+  try {
+    // MediaPipe reads width/height from any texture source, ImageBitmap included
+    await hands.send({ image: image as unknown as HTMLCanvasElement });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: String(error) });
+    return;
+  } finally {
+    image.close();
+  }
+
+  const results = latestResults as Results | null;
+  scope.postMessage({
+    type: 'results',
+    timestamp,
+    multiHandLandmarks: results?.multiHandLandmarks ?? [],
+    multiHandWorldLandmarks: results?.multiHandWorldLandmarks ?? [],
+    handednessLabels: results?.multiHandedness?.map(h => h.label) ?? []
+  });
+}
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        await init(message);
+        scope.postMessage({ type: 'ready' });
+      } catch (error) {
+        scope.postMessage({ type: 'error', message: String(error) });
+      }
+      break;
+
+    case 'options':
+      fileUrls = message.fileUrls;
+      hands?.setOptions(message.options);
+      break;
+
+    case 'frame':
+      await processFrame(message.image, message.timestamp);
+      break;
+
+    case 'close':
+      await hands?.close();
+      hands = null;
+      break;
+  }
+};
@@ -0,0 +1,90 @@
+import { InferenceSettings } from './types';
+import { INFERENCE } from './constants';
+
+export type InferenceChangeListener = (settings: InferenceSettings, averageLatency: number) => void;
+
+// Watches per-frame inference latency and walks the INFERENCE.LEVELS ladder to hold a target.
+// Slow machines drop to the lite model, smaller input and skipped frames; fast ones climb back.
+export class InferenceGovernor {
+  private level = 0;
+  private targetLatency: number;
+  private averageLatency = 0;
+  private samples = 0;
+  private warmup: number = INFERENCE.WARMUP_SAMPLES;
+  private frameCount = 0;
+  private listeners: InferenceChangeListener[] = [];
+
+  constructor(targetLatency: number = INFERENCE.TARGET_LATENCY) {
+    this.targetLatency = Math.max(0, targetLatency);
+  }
+
+  getSettings(): InferenceSettings {
+    return { ...INFERENCE.LEVELS[this.level] };
+  }
+
+  getAverageLatency(): number {
+    return this.averageLatency;
+  }
+
+  getTargetLatency(): number {
+    return this.targetLatency;
+  }
+
+  // 0 turns adaptation off and restores full quality
+  setTargetLatency(ms: number): void {
+    this.targetLatency = Math.max(0, ms);
+    this.samples = 0;
+    if (this.targetLatency === 0) {
+      this.setLevel(0);
+    }
+  }
+
+  onChange(listener: InferenceChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Called once per camera frame; false means skip inference for this one
+  shouldProcessFrame(): boolean {
+    const interval = INFERENCE.LEVELS[this.level].frameSkip + 1;
+    return this.frameCount++ % interval === 0;
+  }
+
+  // Starts measuring afresh, skipping the slow first inferences of a newly loaded model
+  resetMeasurements(): void {
+    this.samples = 0;
+    this.warmup = INFERENCE.WARMUP_SAMPLES;
+  }
+
+  recordLatency(ms: number): void {
+    if (this.warmup > 0) {
+      this.warmup--;
+      return;
+    }
+
+    this.averageLatency = this.samples === 0
+      ? ms
+      : this.averageLatency + (ms - this.averageLatency) * INFERENCE.LATENCY_SMOOTHING;
+    this.samples++;
+
+    if (this.targetLatency === 0 || this.samples < INFERENCE.SAMPLE_WINDOW) return;
+
+    if (this.averageLatency > this.targetLatency * INFERENCE.DEGRADE_RATIO) {
+      this.setLevel(this.level + 1);
+    } else if (this.averageLatency < this.targetLatency * INFERENCE.UPGRADE_RATIO) {
+      this.setLevel(this.level - 1);
+    }
+  }
+
+  private setLevel(level: number): void {
+    const clamped = Math.min(INFERENCE.LEVELS.length - 1, Math.max(0, level));
+    if (clamped === this.level) return;
+
+    this.level = clamped;
+    this.frameCount = 0;
+    // Measure the new settings from scratch before judging them
+    this.resetMeasurements();
+
+    const settings = this.getSettings();
+    this.listeners.forEach(listener => listener(settings, this.averageLatency));
+  }
+}
@@ -0,0 +1,56 @@
+// What the keyboard asks the app to do
+export interface KeyboardShortcutHandlers {
+  closeAndInflate(): void;       // also takes a clean shape on offer, like holding an open palm again
+  keepDrawnShape(): boolean;     // turns down a clean shape on offer; false if there was none
+  undo(): void;
+  redo(): void;
+}
+
+// Text fields keep their own undo, and Enter on a focused button presses the button
+const IGNORED_TARGETS = ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'];
+
+// The single keydown listener for the canvas, so one key press never reaches two handlers
+// (e.g. Enter closing a shape, then accepting the clean shape that closing offered).
+// Enter closes and inflates, Esc keeps the drawn shape, Ctrl/Cmd+Z undoes, and
+// Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes.
+export class KeyboardShortcuts {
+  private handlers: KeyboardShortcutHandlers;
+
+  constructor(target: EventTarget, handlers: KeyboardShortcutHandlers) {
+    this.handlers = handlers;
+    target.addEventListener('keydown', (e) => this.onKeyDown(e as KeyboardEvent));
+  }
+
+  private onKeyDown(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement | null;
+    if (target && IGNORED_TARGETS.includes(target.tagName)) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.handlers.closeAndInflate();
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      if (this.handlers.keepDrawnShape()) {
+        e.preventDefault();
+      }
+      return;
+    }
+
+    if (!(e.ctrlKey || e.metaKey)) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        this.handlers.redo();
+      } else {
+        this.handlers.undo();
+      }
+    } else if (key === 'y') {
+      e.preventDefault();
+      this.handlers.redo();
+    }
+  }
+}
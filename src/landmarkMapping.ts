@@ -0,0 +1,123 @@
+import { ActiveRegion, MappingSettings, Point2D } from './types';
+import { DEPTH, MAPPING } from './constants';
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Fits a region inside the camera frame, no smaller than MAPPING.MIN_REGION_SIZE
+export function clampRegion(region: ActiveRegion): ActiveRegion {
+  const width = Math.min(1, Math.max(MAPPING.MIN_REGION_SIZE, region.width));
+  const height = Math.min(1, Math.max(MAPPING.MIN_REGION_SIZE, region.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, region.x)),
+    y: Math.min(1 - height, Math.max(0, region.y)),
+    width,
+    height
+  };
+}
+
+// Maps normalized camera landmarks to screen pixels (and back) without distorting the hand.
+// Shared by the tracker, the hand overlay, the preview overlay and drawing.
+export class LandmarkMapper {
+  private settings: MappingSettings;
+  private imageWidth = MAPPING.FALLBACK_IMAGE_WIDTH;
+  private imageHeight = MAPPING.FALLBACK_IMAGE_HEIGHT;
+  private viewportWidth = 640;
+  private viewportHeight = 480;
+
+  constructor(settings: MappingSettings = MAPPING.DEFAULT) {
+    this.settings = { mode: settings.mode, region: { ...settings.region } };
+  }
+
+  getSettings(): MappingSettings {
+    return { mode: this.settings.mode, region: { ...this.settings.region } };
+  }
+
+  setSettings(settings: Partial<MappingSettings>): void {
+    this.settings = {
+      mode: settings.mode ?? this.settings.mode,
+      region: { ...(settings.region ?? this.settings.region) }
+    };
+  }
+
+  setImageSize(width: number, height: number): void {
+    if (width > 0 && height > 0) {
+      this.imageWidth = width;
+      this.imageHeight = height;
+    }
+  }
+
+  setViewportSize(width: number, height: number): void {
+    this.viewportWidth = width;
+    this.viewportHeight = height;
+  }
+
+  // Part of the (mirrored) image that is mapped, in image pixels
+  private getSourceRect(): Rect {
+    if (this.settings.mode !== 'region') {
+      return { x: 0, y: 0, width: this.imageWidth, height: this.imageHeight };
+    }
+
+    const region = clampRegion(this.settings.region);
+    return {
+      x: region.x * this.imageWidth,
+      y: region.y * this.imageHeight,
+      width: region.width * this.imageWidth,
+      height: region.height * this.imageHeight
+    };
+  }
+
+  // Screen-space scale and offset; 'region' fills the screen like 'cover' so shapes keep their proportions
+  private getTransform(): { scaleX: number; scaleY: number; offsetX: number; offsetY: number } {
+    const source = this.getSourceRect();
+    const fitX = this.viewportWidth / source.width;
+    const fitY = this.viewportHeight / source.height;
+
+    let scaleX = fitX;
+    let scaleY = fitY;
+    if (this.settings.mode === 'contain') {
+      scaleX = scaleY = Math.min(fitX, fitY);
+    } else if (this.settings.mode === 'cover' || this.settings.mode === 'region') {
+      scaleX = scaleY = Math.max(fitX, fitY);
+    }
+
+    return {
+      scaleX,
+      scaleY,
+      offsetX: (this.viewportWidth - source.width * scaleX) / 2 - source.x * scaleX,
+      offsetY: (this.viewportHeight - source.height * scaleY) / 2 - source.y * scaleY
+    };
+  }
+
+  // Normalized MediaPipe coordinates -> screen pixels (mirrored horizontally)
+  toScreen(landmark: Point2D): Point2D {
+    const t = this.getTransform();
+    return {
+      x: (1 - landmark.x) * this.imageWidth * t.scaleX + t.offsetX,
+      y: landmark.y * this.imageHeight * t.scaleY + t.offsetY
+    };
+  }
+
+  // Screen pixels -> normalized mirrored image coordinates (0..1 across the camera frame)
+  toImage(point: Point2D): Point2D {
+    const t = this.getTransform();
+    return {
+      x: (point.x - t.offsetX) / t.scaleX / this.imageWidth,
+      y: (point.y - t.offsetY) / t.scaleY / this.imageHeight
+    };
+  }
+
+  // Camera focal length in screen pixels, for estimating distance from apparent size
+  getFocalLength(): number {
+    const t = this.getTransform();
+    return this.imageWidth * t.scaleX / (2 * Math.tan(DEPTH.CAMERA_FOV / 2));
+  }
+
+  getImageAspect(): number {
+    return this.imageWidth / this.imageHeight;
+  }
+}
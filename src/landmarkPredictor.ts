@@ -0,0 +1,95 @@
+import { Handedness, HandLandmarks, Point2D } from './types';
+import { PREDICTION } from './constants';
+
+interface HandTrack {
+  last: HandLandmarks;
+  velocity: Point2D[];     // px/ms per landmark
+  lastTimestamp: number;
+  lastSeen: number;        // timestamp of the last real detection
+  missed: number;
+}
+
+export interface PredictorOptions {
+  maxFrames?: number;
+  timeout?: number;
+  damping?: number;
+}
+
+// Constant-velocity prediction per landmark. When MediaPipe misses a frame the hand keeps
+// moving along its last trajectory for a few frames instead of vanishing mid-stroke.
+export class LandmarkPredictor {
+  private tracks = new Map<Handedness, HandTrack>();
+  private maxFrames: number;
+  private timeout: number;
+  private damping: number;
+
+  constructor(options: PredictorOptions = {}) {
+    this.maxFrames = options.maxFrames ?? PREDICTION.MAX_FRAMES;
+    this.timeout = options.timeout ?? PREDICTION.TIMEOUT;
+    this.damping = options.damping ?? PREDICTION.VELOCITY_DAMPING;
+  }
+
+  setMaxFrames(maxFrames: number): void {
+    this.maxFrames = Math.max(0, maxFrames);
+  }
+
+  reset(): void {
+    this.tracks.clear();
+  }
+
+  process(hands: HandLandmarks[], timestamp: number): HandLandmarks[] {
+    const result: HandLandmarks[] = [];
+    const seen = new Set<Handedness>();
+
+    for (const hand of hands) {
+      const key = hand.handedness ?? 'right';
+      seen.add(key);
+
+      const track = this.tracks.get(key);
+      const dt = track ? timestamp - track.lastTimestamp : 0;
+      const velocity = hand.landmarks.map((p, i) => {
+        const previous = track?.last.landmarks[i];
+        if (!previous || dt <= 0) return { x: 0, y: 0 };
+        return { x: (p.x - previous.x) / dt, y: (p.y - previous.y) / dt };
+      });
+
+      this.tracks.set(key, {
+        last: hand,
+        velocity,
+        lastTimestamp: timestamp,
+        lastSeen: timestamp,
+        missed: 0
+      });
+
+      result.push({ ...hand, predicted: false, confidence: 1 });
+    }
+
+    for (const [key, track] of this.tracks) {
+      if (seen.has(key)) continue;
+
+      track.missed++;
+      if (track.missed > this.maxFrames || timestamp - track.lastSeen > this.timeout) {
+        this.tracks.delete(key);
+        continue;
+      }
+
+      const dt = timestamp - track.lastTimestamp;
+      const damping = Math.pow(this.damping, track.missed);
+      const landmarks = track.last.landmarks.map((p, i) => ({
+        x: p.x + track.velocity[i].x * dt * damping,
+        y: p.y + track.velocity[i].y * dt * damping
+      }));
+
+      track.last = { ...track.last, landmarks };
+      track.lastTimestamp = timestamp;
+
+      result.push({
+        ...track.last,
+        predicted: true,
+        confidence: 1 - track.missed / (this.maxFrames + 1)
+      });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,643 @@
+import { Hands, Results } from '@mediapipe/hands';
+import {
+  CameraSettings,
+  Handedness,
+  HandTrackingOptions,
+  HandWorkerRequest,
+  HandWorkerResponse,
+  InferenceSettings,
+  LandmarkFrame,
+  LandmarkRecording,
+  Point3D
+} from './types';
+import { LANDMARKS, HANDS, CAMERA } from './constants';
+import { parseRecording } from './sessionRecorder';
+import { AssetLoadError, MediaPipeAssets } from './mediapipeAssets';
+import { InferenceGovernor } from './inferenceGovernor';
+
+export type LandmarkFrameCallback = (frame: LandmarkFrame) => void;
+
+// Anything that can feed hand landmarks into the HandTracker
+export interface LandmarkSource {
+  start(onFrame: LandmarkFrameCallback): Promise<void>;
+  stop(): void;
+}
+
+// How long the worker gets to load the model before we fall back to the main thread
+const WORKER_INIT_TIMEOUT = 20000;
+
+export interface WebcamSourceOptions {
+  assets?: MediaPipeAssets;
+  useWorker?: boolean;  // Run inference off the render thread when the browser supports it
+  governor?: InferenceGovernor;
+}
+
+export type InferenceReportListener = (settings: InferenceSettings, averageLatency: number) => void;
+
+// Converts MediaPipe output into a LandmarkFrame
+function toLandmarkFrame(
+  timestamp: number,
+  multiHandLandmarks: Point3D[][] | undefined,
+  multiHandWorldLandmarks: Point3D[][] | undefined,
+  handednessLabels: ('Left' | 'Right')[] | undefined,
+  video: HTMLVideoElement
+): LandmarkFrame {
+  return {
+    timestamp,
+    imageWidth: video.videoWidth || undefined,
+    imageHeight: video.videoHeight || undefined,
+    multiHandLandmarks: multiHandLandmarks ?? [],
+    multiHandWorldLandmarks,
+    // MediaPipe labels assume a mirrored (selfie) image; our input isn't mirrored, so swap them
+    multiHandedness: handednessLabels?.map(
+      (label): Handedness => label === 'Left' ? 'right' : 'left'
+    )
+  };
+}
+
+// Live webcam + MediaPipe Hands, in a worker when possible with a main-thread fallback
+export class WebcamLandmarkSource implements LandmarkSource {
+  private hands: Hands | null = null;
+  private worker: Worker | null = null;
+  private workerBusy = false;
+  private frameSentAt = 0;
+  private useWorker: boolean;
+  private assets: MediaPipeAssets;
+  private videoElement: HTMLVideoElement;
+  private onFrame: LandmarkFrameCallback | null = null;
+  private isRunning = false;
+  private animationId: number | null = null;
+  private startTime = 0;
+  private modelComplexity: 0 | 1 = 1;  // Better accuracy model (less jitter)
+  private inputScale = 1;
+  private scaleCanvas: HTMLCanvasElement | null = null;
+  private governor: InferenceGovernor;
+  private inferenceListeners: InferenceReportListener[] = [];
+  private cameraSettings: CameraSettings = { preset: CAMERA.DEFAULT_PRESET };
+  private streamListeners: ((stream: MediaStream) => void)[] = [];
+
+  constructor(videoElement: HTMLVideoElement, options: WebcamSourceOptions = {}) {
+    this.videoElement = videoElement;
+    this.assets = options.assets ?? new MediaPipeAssets();
+    this.governor = options.governor ?? new InferenceGovernor();
+    this.governor.onChange((settings) => this.applyInferenceSettings(settings));
+    this.useWorker = (options.useWorker ?? true) &&
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap === 'function';
+  }
+
+  private getHandsOptions(): HandTrackingOptions {
+    return {
+      maxNumHands: HANDS.MAX_HANDS,
+      modelComplexity: this.modelComplexity,
+      minDetectionConfidence: 0.6,
+      minTrackingConfidence: 0.5
+    };
+  }
+
+  // Initializes the model on the main thread; throws AssetLoadError so callers can offer a retry
+  private async loadHands(): Promise<Hands> {
+    if (this.hands) return this.hands;
+
+    const hands = new Hands({
+      locateFile: (file) => this.assets.locateFile(file)
+    });
+
+    hands.setOptions(this.getHandsOptions());
+
+    hands.onResults((results) => this.onResults(results));
+
+    try {
+      await hands.initialize();
+    } catch (error) {
+      hands.close();
+      throw new AssetLoadError(`MediaPipe failed to initialize (${(error as Error).message ?? error})`);
+    }
+
+    this.hands = hands;
+    return hands;
+  }
+
+  private startWorker(): Promise<Worker> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./handWorker.ts', import.meta.url));
+
+      const fail = (reason: string) => {
+        clearTimeout(timeout);
+        worker.terminate();
+        reject(new Error(reason));
+      };
+
+      const timeout = setTimeout(() => fail('Hand worker timed out'), WORKER_INIT_TIMEOUT);
+
+      worker.onerror = (event) => fail(event.message || 'Hand worker crashed');
+      worker.onmessage = (event: MessageEvent<HandWorkerResponse>) => {
+        if (event.data.type === 'ready') {
+          clearTimeout(timeout);
+          worker.onmessage = (e: MessageEvent<HandWorkerResponse>) => this.onWorkerMessage(e.data);
+          worker.onerror = (e) => {
+            console.error('Hand worker crashed, continuing on the main thread:', e.message);
+            this.stopWorker();
+          };
+          resolve(worker);
+        } else if (event.data.type === 'error') {
+          fail(event.data.message);
+        }
+      };
+
+      const request: HandWorkerRequest = {
+        type: 'init',
+        baseUrl: this.assets.getBaseUrl(),
+        fileUrls: this.assets.getFileUrls(),
+        options: this.getHandsOptions()
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  private stopWorker(): void {
+    if (!this.worker) return;
+
+    const request: HandWorkerRequest = { type: 'close' };
+    this.worker.postMessage(request);
+    this.worker.terminate();
+    this.worker = null;
+    this.workerBusy = false;
+  }
+
+  private onWorkerMessage(message: HandWorkerResponse): void {
+    this.workerBusy = false;
+    this.governor.recordLatency(performance.now() - this.frameSentAt);
+
+    if (message.type === 'error') {
+      console.warn('Hand worker frame failed:', message.message);
+      return;
+    }
+
+    if (message.type !== 'results' || !this.onFrame) return;
+
+    this.onFrame(toLandmarkFrame(
+      message.timestamp,
+      message.multiHandLandmarks,
+      message.multiHandWorldLandmarks,
+      message.handednessLabels,
+      this.videoElement
+    ));
+  }
+
+  private onResults(results: Results): void {
+    if (!this.onFrame) return;
+
+    this.onFrame(toLandmarkFrame(
+      performance.now() - this.startTime,
+      results.multiHandLandmarks,
+      results.multiHandWorldLandmarks,
+      results.multiHandedness?.map(h => h.label),
+      this.videoElement
+    ));
+  }
+
+  // Only one frame is in flight at a time; frames arriving while the worker is busy are skipped
+  private async sendToWorker(worker: Worker): Promise<void> {
+    if (this.workerBusy) return;
+    this.workerBusy = true;
+    this.frameSentAt = performance.now();
+
+    const timestamp = this.frameSentAt - this.startTime;
+    let sent = false;
+    try {
+      const image = this.inputScale < 1
+        ? await createImageBitmap(this.videoElement, {
+            resizeWidth: Math.round(this.videoElement.videoWidth * this.inputScale),
+            resizeHeight: Math.round(this.videoElement.videoHeight * this.inputScale),
+            resizeQuality: 'low'
+          })
+        : await createImageBitmap(this.videoElement);
+      const request: HandWorkerRequest = { type: 'frame', image, timestamp };
+      worker.postMessage(request, [image]);
+      sent = true;
+    } catch (error) {
+      // A video that isn't ready yet can't be captured; skip the frame and keep the loop running
+      console.warn('Could not capture frame for the hand worker:', error);
+    } finally {
+      // Only a posted frame gets an answer that clears the flag
+      if (!sent) this.workerBusy = false;
+    }
+  }
+
+  // Main-thread inference on a downscaled copy when the governor asks for smaller input
+  private async sendToHands(hands: Hands): Promise<void> {
+    let image: HTMLVideoElement | HTMLCanvasElement = this.videoElement;
+
+    if (this.inputScale < 1) {
+      this.scaleCanvas ??= document.createElement('canvas');
+      this.scaleCanvas.width = Math.round(this.videoElement.videoWidth * this.inputScale);
+      this.scaleCanvas.height = Math.round(this.videoElement.videoHeight * this.inputScale);
+      this.scaleCanvas.getContext('2d')!.drawImage(
+        this.videoElement, 0, 0, this.scaleCanvas.width, this.scaleCanvas.height
+      );
+      image = this.scaleCanvas;
+    }
+
+    const sentAt = performance.now();
+    await hands.send({ image });
+    this.governor.recordLatency(performance.now() - sentAt);
+  }
+
+  getGovernor(): InferenceGovernor {
+    return this.governor;
+  }
+
+  // Settings actually in effect, which can lag the governor while a model is downloading
+  getInferenceSettings(): InferenceSettings {
+    return {
+      modelComplexity: this.modelComplexity,
+      inputScale: this.inputScale,
+      frameSkip: this.governor.getSettings().frameSkip
+    };
+  }
+
+  onInferenceChange(listener: InferenceReportListener): void {
+    this.inferenceListeners.push(listener);
+  }
+
+  private async applyInferenceSettings(settings: InferenceSettings): Promise<void> {
+    this.inputScale = settings.inputScale;
+
+    if (settings.modelComplexity !== this.modelComplexity) {
+      try {
+        await this.assets.prepare(settings.modelComplexity);
+        this.modelComplexity = settings.modelComplexity;
+        this.hands?.setOptions(this.getHandsOptions());
+
+        if (this.worker) {
+          const request: HandWorkerRequest = {
+            type: 'options',
+            fileUrls: this.assets.getFileUrls(),
+            options: this.getHandsOptions()
+          };
+          this.worker.postMessage(request);
+        }
+        // Frames timed while the model downloaded ran on the old one
+        this.governor.resetMeasurements();
+      } catch (error) {
+        console.warn('Could not switch hand model, keeping the current one:', error);
+      }
+    }
+
+    const effective = this.getInferenceSettings();
+    const latency = this.governor.getAverageLatency();
+    this.inferenceListeners.forEach(listener => listener(effective, latency));
+  }
+
+  async start(onFrame: LandmarkFrameCallback): Promise<void> {
+    this.onFrame = onFrame;
+
+    if (this.isRunning) return;
+
+    // Load the model before asking for the camera so asset failures aren't mistaken for a denied camera
+    await this.assets.prepare(this.modelComplexity);
+
+    if (this.useWorker && !this.worker) {
+      try {
+        this.worker = await this.startWorker();
+      } catch (error) {
+        console.warn('Hand worker unavailable, running inference on the main thread:', error);
+        this.useWorker = false;
+      }
+    }
+
+    if (!this.worker) {
+      await this.loadHands();
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await this.openStream(this.cameraSettings);
+    } catch (error) {
+      if (!this.cameraSettings.deviceId) throw error;
+
+      // The saved camera may have been unplugged; fall back to the default one
+      this.cameraSettings = { ...this.cameraSettings, deviceId: undefined };
+      stream = await this.openStream(this.cameraSettings);
+    }
+    await this.attachStream(stream);
+
+    this.isRunning = true;
+    this.startTime = performance.now();
+    this.governor.resetMeasurements();
+
+    // Use direct requestAnimationFrame for lower latency
+    const processFrame = async () => {
+      if (!this.isRunning) return;
+
+      if (this.videoElement.readyState >= 2 && this.governor.shouldProcessFrame()) {
+        if (this.worker) {
+          await this.sendToWorker(this.worker);
+        } else {
+          await this.sendToHands(await this.loadHands());
+        }
+      }
+
+      this.animationId = requestAnimationFrame(processFrame);
+    };
+
+    processFrame();
+  }
+
+  // Request camera access - the default preset balances speed and detection quality
+  private openStream(settings: CameraSettings): Promise<MediaStream> {
+    const preset = CAMERA.PRESETS[settings.preset];
+
+    return navigator.mediaDevices.getUserMedia({
+      video: {
+        width: { ideal: preset.width },
+        height: { ideal: preset.height },
+        frameRate: { ideal: preset.frameRate },
+        ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' })
+      }
+    });
+  }
+
+  private async attachStream(stream: MediaStream): Promise<void> {
+    this.videoElement.srcObject = stream;
+    await this.videoElement.play();
+    this.streamListeners.forEach(listener => listener(stream));
+  }
+
+  private stopStream(): void {
+    const stream = this.videoElement.srcObject as MediaStream;
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+    }
+  }
+
+  // Notified whenever the capture stream is replaced (start or camera switch)
+  onStreamChange(listener: (stream: MediaStream) => void): void {
+    this.streamListeners.push(listener);
+  }
+
+  async listCameras(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+  }
+
+  getCameraSettings(): CameraSettings {
+    return { ...this.cameraSettings };
+  }
+
+  // Switches device/preset without reloading; restores the previous camera if the new one fails
+  async setCamera(settings: Partial<CameraSettings>): Promise<void> {
+    const previous = this.cameraSettings;
+    this.cameraSettings = { ...previous, ...settings };
+
+    if (!this.isRunning) return;
+
+    // Many cameras can't be opened twice, so release the current stream first
+    this.stopStream();
+
+    try {
+      await this.attachStream(await this.openStream(this.cameraSettings));
+    } catch (error) {
+      this.cameraSettings = previous;
+      await this.attachStream(await this.openStream(previous));
+      throw error;
+    }
+
+    // Tracking state from the old view is meaningless in the new one
+    this.hands?.reset();
+  }
+
+  isUsingWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+
+    this.stopWorker();
+    this.stopStream();
+  }
+}
+
+// Plays back a recorded session at its original timing
+export class ReplayLandmarkSource implements LandmarkSource {
+  private recording: LandmarkRecording;
+  private loop: boolean;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private isRunning = false;
+  private colorListener: ((color: string) => void) | null = null;
+
+  constructor(recording: LandmarkRecording, loop: boolean = false) {
+    this.recording = recording;
+    this.loop = loop;
+  }
+
+  static async fromUrl(url: string, loop: boolean = false): Promise<ReplayLandmarkSource> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load recording: ${response.status}`);
+    }
+    return new ReplayLandmarkSource(parseRecording(await response.text()), loop);
+  }
+
+  // Called with the drawing color recorded alongside the frames, whenever it changes
+  onColorChange(listener: (color: string) => void): void {
+    this.colorListener = listener;
+  }
+
+  async start(onFrame: LandmarkFrameCallback): Promise<void> {
+    if (this.isRunning) return;
+
+    const frames = this.recording.frames;
+    if (frames.length === 0) {
+      throw new Error('Recording has no frames');
+    }
+    this.isRunning = true;
+
+    let color: string | null = null;
+
+    let index = 0;
+    let startTime = performance.now();
+    const firstTimestamp = frames[0].timestamp;
+
+    // Schedule against the start time rather than frame-to-frame so delays don't accumulate
+    const scheduleNext = () => {
+      if (!this.isRunning) return;
+
+      if (index >= frames.length) {
+        if (!this.loop) {
+          this.isRunning = false;
+          return;
+        }
+        index = 0;
+        startTime = performance.now();
+      }
+
+      const due = startTime + (frames[index].timestamp - firstTimestamp);
+      this.timeoutId = setTimeout(() => {
+        const frame = frames[index];
+        if (frame.color && frame.color !== color) {
+          color = frame.color;
+          this.colorListener?.(color);
+        }
+        onFrame(frame);
+        index++;
+        scheduleNext();
+      }, Math.max(0, due - performance.now()));
+    };
+
+    scheduleNext();
+  }
+
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+}
+
+// Finger counts (peace, three, four) are the poses the finger-count shortcuts pick with
+export type SyntheticPose = 'point' | 'palm' | 'fist' | 'pinch' | 'peace' | 'three' | 'four';
+
+export interface SyntheticHandState {
+  pose: SyntheticPose;
+  x: number;      // normalized image position of the wrist
+  y: number;
+  size?: number;  // normalized wrist-to-middle-MCP distance
+  hand?: Handedness;
+}
+
+// Returns where the hands should be at a given time; null or [] for "no hand"
+export type SyntheticHandScript = (elapsedMs: number) => SyntheticHandState | SyntheticHandState[] | null;
+
+// Hand-local layout: wrist at origin, fingers pointing up (+y), one unit = wrist to middle MCP
+const FINGER_BASES: [number, number, number, number][] = [
+  // [mcp index, mcp x, mcp y, length scale]
+  [LANDMARKS.INDEX_MCP, -0.3, 0.95, 1.0],
+  [LANDMARKS.MIDDLE_MCP, 0, 1, 1.05],
+  [LANDMARKS.RING_MCP, 0.25, 0.95, 0.95],
+  [LANDMARKS.PINKY_MCP, 0.45, 0.85, 0.75]
+];
+
+const EXTENDED_FINGERS: Record<SyntheticPose, number[]> = {
+  point: [LANDMARKS.INDEX_MCP],
+  palm: [LANDMARKS.INDEX_MCP, LANDMARKS.MIDDLE_MCP, LANDMARKS.RING_MCP, LANDMARKS.PINKY_MCP],
+  fist: [],
+  pinch: [LANDMARKS.INDEX_MCP],
+  peace: [LANDMARKS.INDEX_MCP, LANDMARKS.MIDDLE_MCP],
+  three: [LANDMARKS.INDEX_MCP, LANDMARKS.MIDDLE_MCP, LANDMARKS.RING_MCP],
+  four: [LANDMARKS.INDEX_MCP, LANDMARKS.MIDDLE_MCP, LANDMARKS.RING_MCP, LANDMARKS.PINKY_MCP]
+};
+
+// The 21 landmarks of a pose, scaled and placed like MediaPipe reports them. Also builds the
+// test fixtures, so a pose that fails to classify here fails the tests too.
+export function buildSyntheticHand(state: SyntheticHandState): Point3D[] {
+  const local: [number, number][] = new Array(21);
+  local[LANDMARKS.WRIST] = [0, 0];
+
+  for (const [mcp, x, y, length] of FINGER_BASES) {
+    local[mcp] = [x, y];
+    if (EXTENDED_FINGERS[state.pose].includes(mcp)) {
+      local[mcp + 1] = [x, y + 0.4 * length];
+      local[mcp + 2] = [x, y + 0.65 * length];
+      local[mcp + 3] = [x, y + 0.85 * length];
+    } else {
+      local[mcp + 1] = [x, y + 0.25];
+      local[mcp + 2] = [x * 0.8, y];
+      local[mcp + 3] = [x * 0.6, y - 0.45];
+    }
+  }
+
+  local[LANDMARKS.THUMB_CMC] = [-0.35, 0.3];
+  local[LANDMARKS.THUMB_MCP] = [-0.55, 0.5];
+  if (state.pose === 'palm') {
+    local[LANDMARKS.THUMB_IP] = [-0.7, 0.7];
+    local[LANDMARKS.THUMB_TIP] = [-0.85, 0.95];
+  } else if (state.pose === 'pinch') {
+    const indexTip = local[LANDMARKS.INDEX_TIP];
+    local[LANDMARKS.THUMB_IP] = [-0.5, 1.3];
+    local[LANDMARKS.THUMB_TIP] = [indexTip[0] - 0.02, indexTip[1] - 0.02];
+  } else {
+    // Tucked across the middle segments of the curled fingers, clear of the index tip
+    local[LANDMARKS.THUMB_IP] = [-0.3, 0.65];
+    local[LANDMARKS.THUMB_TIP] = [0.15, 0.85];
+  }
+
+  // Image space has y pointing down; a left hand is the mirror image of a right one
+  const size = state.size ?? 0.25;
+  const mirror = state.hand === 'left' ? -1 : 1;
+  return local.map(([x, y]) => ({
+    x: state.x + x * size * mirror,
+    y: state.y - y * size,
+    z: 0
+  }));
+}
+
+// Drives the pipeline from a script instead of a camera (headless runs, demos)
+export class SyntheticLandmarkSource implements LandmarkSource {
+  private script: SyntheticHandScript;
+  private frameInterval: number;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(script: SyntheticHandScript = drawCircleScript, fps: number = 30) {
+    this.script = script;
+    this.frameInterval = 1000 / fps;
+  }
+
+  async start(onFrame: LandmarkFrameCallback): Promise<void> {
+    if (this.intervalId !== null) return;
+
+    const startTime = performance.now();
+    this.intervalId = setInterval(() => {
+      onFrame(createSyntheticFrame(this.script, performance.now() - startTime));
+    }, this.frameInterval);
+  }
+
+  stop(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+}
+
+export function createSyntheticFrame(script: SyntheticHandScript, elapsedMs: number): LandmarkFrame {
+  const result = script(elapsedMs);
+  const states = result === null ? [] : Array.isArray(result) ? result : [result];
+
+  return {
+    timestamp: elapsedMs,
+    multiHandLandmarks: states.map(buildSyntheticHand),
+    multiHandedness: states.map(state => state.hand ?? 'right')
+  };
+}
+
+// Traces a circle with the index finger, then holds an open palm to inflate it
+export const drawCircleScript: SyntheticHandScript = (elapsedMs) => {
+  const t = elapsedMs % 6000;
+
+  if (t < 500) return null;
+
+  if (t < 3500) {
+    const angle = ((t - 500) / 3000) * Math.PI * 2;
+    return {
+      pose: 'point',
+      x: 0.5 + Math.cos(angle) * 0.15,
+      y: 0.8 + Math.sin(angle) * 0.15
+    };
+  }
+
+  if (t < 5000) return { pose: 'palm', x: 0.5, y: 0.8 };
+
+  return null;
+};
@@ -1,22 +1,77 @@
 import { HandTracker } from './handTracking';
-import { GestureDetector } from './gestureDetector';
-import { DrawingCanvas } from './drawingCanvas';
-import { HandVisualizer } from './handVisualizer';
+import { clampRegion } from './landmarkMapping';
+import { LandmarkSource, ReplayLandmarkSource, SyntheticLandmarkSource } from './landmarkSource';
+import { SessionRecorder, downloadRecording } from './sessionRecorder';
+import { KeyboardShortcuts } from './keyboardShortcuts';
+import { AssetLoadError } from './mediapipeAssets';
+import { GestureDetector, GestureEvent } from './gestureDetector';
+import { Clock, performanceClock } from './clock';
+import { DrawingCanvas, DrawingSnapshot } from './drawingCanvas';
+import { groupContours } from './contours';
+import { ShapeMatch, recognizeShape, snapStroke } from './shapeRecognizer';
+import { HandVisualizer, ShortcutMenu, ShortcutOption } from './handVisualizer';
 import { Scene3D } from './scene3D';
 import { ObjectManager } from './objectManager';
 import { Multiplayer, MultiplayerEvent } from './multiplayer';
-import { HandLandmarks, GestureState, BalloonObject, Stroke } from './types';
-import { GESTURE, TIMING } from './constants';
+import { PointerInput } from './pointerInput';
+import { FingerCountPicker, ShortcutMode } from './fingerShortcuts';
+import { Command, CommandHistory } from './commandHistory';
+import { CALIBRATION_STEPS, GestureCalibrator, isValidThresholds } from './gestureCalibration';
+import { ActionRegistry, BindingConflict, BindingTable, GestureAction, GestureBindings } from './gestureBindings';
+import {
+  TemplateClassifier,
+  customGestureId,
+  downloadCustomGestures,
+  extractPoseFeatures,
+  parseCustomGestures,
+  serializeCustomGestures
+} from './gestureTemplates';
+import {
+  HandLandmarks,
+  GestureState,
+  ObjectTransform,
+  GestureType,
+  BalloonObject,
+  Stroke,
+  Handedness,
+  HandRole,
+  DrawingTool,
+  CameraSettings,
+  CameraPreset,
+  ActiveRegion,
+  MappingMode,
+  MappingSettings,
+  InferenceSettings,
+  SmoothingFilterType,
+  SmoothingSettings,
+  StrokeWidthMode,
+  ShapeSnapMode,
+  CustomGesture,
+  CalibrationProfile,
+  Point2D
+} from './types';
+import { COLORS, COLOR_ARRAY, GESTURE, TIMING, HANDS, CAMERA, MAPPING, POINTER, STROKE, INFERENCE, BINDINGS, TEMPLATES, SCENE, CALIBRATION, DEPTH, SHORTCUTS, SMOOTHING, STROKE_WIDTH, CONTOURS, SHAPES } from './constants';
 
 class AirCanvas {
   // Core components
   private handTracker: HandTracker;
-  private gestureDetector: GestureDetector;
+  private gestureDetectors: Record<Handedness, GestureDetector>;
   private drawingCanvas: DrawingCanvas;
   private handVisualizer: HandVisualizer;
   private scene3D: Scene3D;
   private objectManager: ObjectManager;
   private multiplayer: Multiplayer;
+  private sessionRecorder: SessionRecorder;
+  private pointerInput!: PointerInput;
+  private clock: Clock = performanceClock;
+  private actionRegistry = new ActionRegistry();
+  private gestureBindings: GestureBindings;
+  private templateClassifier = new TemplateClassifier();
+  private refreshBindingControls: () => void = () => {};
+  private onCustomGesturesChanged: () => void = () => {};
+  private calibrationProfiles: CalibrationProfile[] = [];
+  private activeProfile: string | null = null;
+  private onCalibrationChanged: () => void = () => {};
 
   // Preview components
   private previewVideo: HTMLVideoElement;
@@ -27,6 +82,7 @@ class AirCanvas {
   private loadingOverlay: HTMLElement;
   private statusMessage: HTMLElement;
   private colorSwatches: NodeListOf<HTMLElement>;
+  private settingsModal: HTMLElement;
 
   // Modal elements
   private inviteModal: HTMLElement;
@@ -38,19 +94,38 @@ class AirCanvas {
   // State
   private isDrawing = false;
   private currentColor = '#FFB3BA';
+  private tool: DrawingTool = 'pen';
+  private multiContour = false;  // closing adds an outline to a shape with holes instead of inflating
+  private snapMode: ShapeSnapMode = SHAPES.DEFAULT_MODE;
+  // A recognized shape waiting for the user to take the clean version or keep their own
+  private snapOffer: { original: Stroke; clean: Stroke; before: DrawingSnapshot; after: DrawingSnapshot } | null = null;
+  private shortcutMode: { mode: ShortcutMode; until: number } | null = null;  // drawing hand's, from an action
+  private fingerPickers: Record<Handedness, FingerCountPicker> = {
+    left: new FingerCountPicker(),
+    right: new FingerCountPicker()
+  };
+  private shortcutMenu: ShortcutMenu | null = null;
   private lastGestureState: GestureState | null = null;
-  private currentLandmarks: HandLandmarks | null = null;
-  private palmHoldStart = 0;
+  private currentLandmarks: HandLandmarks | null = null;  // The drawing hand
+  private currentHands: HandLandmarks[] = [];
+  private handRoles: Record<Handedness, HandRole>;
+  private frameRoles = new Map<Handedness, HandRole>();  // roles this frame, for gesture events
+  private gestureRoles = new Map<Handedness, HandRole>();  // role each hand's gesture started under
+  private lastCameraPinch: { x: number; y: number } | null = null;
+  private training: { id: GestureType; name: string; samples: number[][]; startAt: number } | null = null;
+  private calibrating: { name: string; calibrator: GestureCalibrator; step: number; startAt: number } | null = null;
   private handDetected = false;
   private lastFrameTime = 0;
   private grabbedObject: BalloonObject | null = null;
+  private grabbedFrom: ObjectTransform | null = null;  // where the grabbed object was picked up
+  private history = new CommandHistory();
+  private pendingInflations = 0;  // closed shapes whose balloon isn't in the scene (or history) yet
+  private strokeEdit: { stroke: Stroke | null; length: number; before: Stroke | null } | null = null;
   private lastPinchPosition: { x: number; y: number } | null = null;
 
   // Mouse controls state
-  private isDragging = false;
-  private lastMouseX = 0;
-  private lastMouseY = 0;
   private selectedObject: BalloonObject | null = null;
+  private selectedFrom: ObjectTransform | null = null;
 
   // Camera preview drag state
   private isPreviewDragging = false;
@@ -74,6 +149,7 @@ class AirCanvas {
     this.loadingOverlay = document.getElementById('loading-overlay')!;
     this.statusMessage = document.getElementById('status-message')!;
     this.colorSwatches = document.querySelectorAll('.color-swatch');
+    this.settingsModal = document.getElementById('settings-modal')!;
 
     // Modal elements
     this.inviteModal = document.getElementById('invite-modal')!;
@@ -84,8 +160,31 @@ class AirCanvas {
 
     // Initialize components
     this.handTracker = new HandTracker(videoElement);
-    this.gestureDetector = new GestureDetector();
-    this.drawingCanvas = new DrawingCanvas(drawCanvas);
+    this.handTracker.getWebcamSource().setCamera(this.loadCameraSettings());
+    this.handTracker.getMapper().setSettings(this.loadMappingSettings());
+    this.handTracker.getWebcamSource().getGovernor().setTargetLatency(this.loadInferenceTarget());
+    this.gestureDetectors = {
+      left: new GestureDetector(this.clock),
+      right: new GestureDetector(this.clock)
+    };
+    this.handRoles = this.loadHandRoles();
+    this.templateClassifier.setGestures(this.loadCustomGestures());
+    this.gestureDetectors.left.setClassifier(this.templateClassifier);
+    this.gestureDetectors.right.setClassifier(this.templateClassifier);
+    this.loadCalibration();
+    this.setPushToDraw(this.loadPushToDraw());
+    this.multiContour = this.loadMultiContour();
+    this.snapMode = this.loadSnapMode();
+    this.registerActions();
+    this.gestureBindings = new GestureBindings(
+      this.actionRegistry,
+      this.loadGestureBindings(),
+      this.customGestureLabels()
+    );
+    this.setupGestureEvents();
+    this.drawingCanvas = new DrawingCanvas(drawCanvas, this.clock);
+    this.drawingCanvas.setSmoothing(this.loadSmoothing());
+    this.drawingCanvas.setWidthMode(this.loadStrokeWidthMode());
     this.handVisualizer = new HandVisualizer(handCanvas);
     this.scene3D = new Scene3D(sceneCanvas);
     this.objectManager = new ObjectManager(
@@ -94,6 +193,8 @@ class AirCanvas {
       window.innerHeight
     );
     this.multiplayer = new Multiplayer();
+    this.sessionRecorder = new SessionRecorder();
+    this.handTracker.attachRecorder(this.sessionRecorder);
 
     // Set initial size
     this.resize();
@@ -114,42 +215,95 @@ class AirCanvas {
 
     // Color palette clicks
     this.colorSwatches.forEach(swatch => {
-      swatch.addEventListener('click', () => {
-        this.colorSwatches.forEach(s => s.classList.remove('active'));
-        swatch.classList.add('active');
-        this.currentColor = swatch.dataset.color || '#FFB3BA';
-      });
+      swatch.addEventListener('click', () => this.selectColor(swatch));
     });
 
-    // Mouse controls for 3D scene
+    // Mouse, pen and touch controls for 3D scene and drawing
     const sceneCanvas = document.getElementById('scene-canvas')!;
 
-    sceneCanvas.addEventListener('mousedown', (e) => this.onMouseDown(e));
-    sceneCanvas.addEventListener('mousemove', (e) => this.onMouseMove(e));
-    sceneCanvas.addEventListener('mouseup', () => this.onMouseUp());
-    sceneCanvas.addEventListener('mouseleave', () => this.onMouseUp());
+    this.setupPointerInput(sceneCanvas);
     sceneCanvas.addEventListener('wheel', (e) => this.onWheel(e));
 
-    // Touch support
-    sceneCanvas.addEventListener('touchstart', (e) => this.onTouchStart(e));
-    sceneCanvas.addEventListener('touchmove', (e) => this.onTouchMove(e));
-    sceneCanvas.addEventListener('touchend', () => this.onMouseUp());
-
     // Click to select objects
     sceneCanvas.addEventListener('click', (e) => this.onSceneClick(e));
+
+    // Enter closes and inflates, Esc keeps the drawn shape, Ctrl/Cmd+Z undoes and redoes
+    new KeyboardShortcuts(window, {
+      closeAndInflate: () => this.closeAndInflate(),
+      keepDrawnShape: () => {
+        if (!this.snapOffer) return false;
+        this.resolveSnap(false);
+        return true;
+      },
+      undo: () => this.undo(),
+      redo: () => this.redo()
+    });
   }
 
   private setupButtonListeners(): void {
     // Clear all button
     const clearAllBtn = document.getElementById('clear-all-btn');
-    clearAllBtn?.addEventListener('click', () => {
-      this.clearAll();
-      // Broadcast to peers
-      if (this.multiplayer.isConnected()) {
-        this.multiplayer.broadcast({ type: 'clear_all' });
+    clearAllBtn?.addEventListener('click', () => this.clearAllAndBroadcast());
+
+    // Pointer draw mode toggle
+    const drawModeBtn = document.getElementById('draw-mode-btn');
+    drawModeBtn?.addEventListener('click', () => {
+      const drawing = this.pointerInput.getMode() !== 'draw';
+      this.pointerInput.setMode(drawing ? 'draw' : 'orbit');
+      drawModeBtn.classList.toggle('active', drawing);
+    });
+
+    // Record session button
+    const recordBtn = document.getElementById('record-btn');
+    recordBtn?.addEventListener('click', () => {
+      this.toggleRecording(recordBtn);
+    });
+
+    // Settings button and modal
+    const settingsBtn = document.getElementById('settings-btn');
+    settingsBtn?.addEventListener('click', () => {
+      this.settingsModal.classList.add('visible');
+    });
+
+    const settingsClose = document.getElementById('settings-close');
+    settingsClose?.addEventListener('click', () => {
+      this.settingsModal.classList.remove('visible');
+    });
+
+    this.settingsModal?.addEventListener('click', (e) => {
+      if (e.target === this.settingsModal) {
+        this.settingsModal.classList.remove('visible');
       }
     });
 
+    // Hand role pickers
+    (['left', 'right'] as Handedness[]).forEach(hand => {
+      const select = document.getElementById(`hand-role-${hand}`) as HTMLSelectElement | null;
+      if (!select) return;
+      select.value = this.handRoles[hand];
+      select.addEventListener('change', () => {
+        this.setHandRole(hand, select.value as HandRole);
+      });
+    });
+
+    this.setupMappingControls();
+    this.setupInferenceControls();
+    this.setupPenControls();
+    this.setupSmoothingControls();
+    this.setupStrokeWidthControls();
+    this.setupShapeControls();
+    this.setupSnapControls();
+    this.setupBindingControls();
+    this.setupCustomGestureControls();
+    this.setupCalibrationControls();
+
+    // Retry after a failed model download
+    const retryBtn = document.getElementById('retry-btn');
+    retryBtn?.addEventListener('click', () => {
+      this.loadingOverlay.classList.remove('error');
+      this.init();
+    });
+
     // Invite button
     const inviteBtn = document.getElementById('invite-btn');
     inviteBtn?.addEventListener('click', () => {
@@ -199,6 +353,76 @@ class AirCanvas {
     });
   }
 
+  private selectColor(swatch: HTMLElement): void {
+    this.colorSwatches.forEach(s => s.classList.remove('active'));
+    swatch.classList.add('active');
+    this.currentColor = swatch.dataset.color || '#FFB3BA';
+    this.sessionRecorder.setColor(this.currentColor);
+  }
+
+  private selectColorValue(color: string): void {
+    const swatch = Array.from(this.colorSwatches).find(s => s.dataset.color?.toUpperCase() === color.toUpperCase());
+    if (swatch) {
+      this.selectColor(swatch);
+    }
+  }
+
+  private cycleColor(step: number): void {
+    const swatches = Array.from(this.colorSwatches);
+    const activeIndex = swatches.findIndex(s => s.classList.contains('active'));
+    const nextIndex = (activeIndex + step + swatches.length) % swatches.length;
+    this.selectColor(swatches[nextIndex]);
+  }
+
+  private toggleRecording(button: HTMLElement): void {
+    if (this.sessionRecorder.isRecording()) {
+      const recording = this.sessionRecorder.stop();
+      button.classList.remove('recording');
+
+      if (recording.frames.length > 0) {
+        downloadRecording(recording);
+        const limit = this.sessionRecorder.hasReachedLimit() ? ' (stopped at the time limit)' : '';
+        this.showStatus(`Saved ${recording.frames.length} frames${limit}`, 2000);
+      } else {
+        this.showStatus('Nothing recorded', 1500);
+      }
+    } else {
+      this.sessionRecorder.setColor(this.currentColor);
+      this.sessionRecorder.start(window.innerWidth, window.innerHeight);
+      button.classList.add('recording');
+      this.showStatus('Recording hand tracking...', 1500);
+    }
+  }
+
+  private loadHandRoles(): Record<Handedness, HandRole> {
+    try {
+      const saved = localStorage.getItem(HANDS.ROLES_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<Record<Handedness, unknown>>;
+        // An unknown role would leave that hand doing nothing, with no option selected to fix it
+        const role = (hand: Handedness) => {
+          const value = parsed[hand];
+          return typeof value === 'string' && HANDS.ROLES.includes(value as HandRole)
+            ? value as HandRole
+            : HANDS.DEFAULT_ROLES[hand];
+        };
+        return { left: role('left'), right: role('right') };
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
+    }
+    return { ...HANDS.DEFAULT_ROLES };
+  }
+
+  private setHandRole(hand: Handedness, role: HandRole): void {
+    this.handRoles[hand] = role;
+    try {
+      localStorage.setItem(HANDS.ROLES_STORAGE_KEY, JSON.stringify(this.handRoles));
+    } catch {
+      // Storage may be disabled; the role still applies for this session
+    }
+  }
+
   private setupPreviewDrag(): void {
     const cameraPreview = document.getElementById('camera-preview');
     const expandBtn = document.getElementById('preview-expand-btn');
@@ -341,6 +565,7 @@ class AirCanvas {
       case 'clear_all':
         this.drawingCanvas.clearAll();
         this.objectManager.clearAll();
+        this.history.clear();
         break;
 
       case 'peer_joined':
@@ -398,39 +623,72 @@ class AirCanvas {
     }
   }
 
-  private onMouseDown(e: MouseEvent): void {
-    this.isDragging = true;
-    this.lastMouseX = e.clientX;
-    this.lastMouseY = e.clientY;
-
-    // Check if clicking on an object
-    const hitObject = this.objectManager.getObjectAtPosition(e.clientX, e.clientY);
-    if (hitObject) {
-      this.selectedObject = hitObject;
-    }
-  }
-
-  private onMouseMove(e: MouseEvent): void {
-    if (!this.isDragging) return;
-
-    const deltaX = e.clientX - this.lastMouseX;
-    const deltaY = e.clientY - this.lastMouseY;
-
-    if (this.selectedObject) {
-      // Rotate the selected object
-      this.objectManager.rotateObject(this.selectedObject, deltaX * 0.01, deltaY * 0.01);
-    } else {
-      // Orbit the camera
-      this.scene3D.orbitCamera(deltaX * 0.005, deltaY * 0.005);
-    }
-
-    this.lastMouseX = e.clientX;
-    this.lastMouseY = e.clientY;
-  }
-
-  private onMouseUp(): void {
-    this.isDragging = false;
-    this.selectedObject = null;
+  // Mouse and touch orbit the scene unless draw mode is on; pens always draw
+  private setupPointerInput(element: HTMLElement): void {
+    let penWidth: number = STROKE.WIDTH;
+    const widthFor = (pressure: number) =>
+      STROKE.WIDTH * (POINTER.MIN_PRESSURE_WIDTH + (POINTER.MAX_PRESSURE_WIDTH - POINTER.MIN_PRESSURE_WIDTH) * pressure);
+
+    this.pointerInput = new PointerInput(element, {
+      drawStart: (point, pressure) => {
+        // Nothing new is drawn until an offered clean shape is taken or turned down
+        if (this.snapOffer) return;
+        penWidth = widthFor(pressure);
+        this.beginStrokeEdit();
+        this.isDrawing = true;
+        this.drawingCanvas.startStroke(point, this.currentColor, penWidth);
+        this.drawingCanvas.updateLivePosition(point);
+        this.drawingCanvas.render();
+      },
+      drawMove: (point, pressure) => {
+        // Ease towards the new pressure so the line doesn't jump in width between points
+        penWidth += (widthFor(pressure) - penWidth) * 0.2;
+        this.drawingCanvas.updateLivePosition(point);
+        this.drawingCanvas.addPoint(point, null, penWidth);
+        this.drawingCanvas.render();
+      },
+      drawEnd: () => {
+        // Lifting keeps the stroke, like pinching mid-air
+        this.isDrawing = false;
+        this.drawingCanvas.pauseStroke();
+        this.drawingCanvas.clearLivePosition();
+        this.commitStrokeEdit();
+      },
+      closeAndInflate: () => this.closeAndInflate(),
+      grab: (point) => {
+        const hitObject = this.objectManager.getObjectAtPosition(point.x, point.y);
+        if (!hitObject) return false;
+        this.grabObject(hitObject, point);
+        return true;
+      },
+      drag: (point) => this.moveGrabbedObject(point),
+      release: () => this.releaseGrabbedObject(),
+      poke: (point) => {
+        const hitObject = this.objectManager.getObjectAtPosition(point.x, point.y);
+        if (hitObject) {
+          this.objectManager.pokeObject(hitObject);
+        }
+      },
+      orbitStart: (point) => {
+        // Dragging an object rotates it instead of the camera
+        this.selectedObject = this.objectManager.getObjectAtPosition(point.x, point.y);
+        this.selectedFrom = this.selectedObject ? this.objectManager.getTransform(this.selectedObject) : null;
+      },
+      orbitMove: (deltaX, deltaY) => {
+        if (this.selectedObject) {
+          this.objectManager.rotateObject(this.selectedObject, deltaX * 0.01, deltaY * 0.01);
+        } else {
+          this.scene3D.orbitCamera(deltaX * 0.005, deltaY * 0.005);
+        }
+      },
+      orbitEnd: () => {
+        if (this.selectedObject && this.selectedFrom) {
+          this.recordTransform('Rotate', this.selectedObject, this.selectedFrom);
+        }
+        this.selectedObject = null;
+        this.selectedFrom = null;
+      }
+    });
   }
 
   private onWheel(e: WheelEvent): void {
@@ -438,38 +696,6 @@ class AirCanvas {
     this.scene3D.zoomCamera(e.deltaY * 0.001);
   }
 
-  private onTouchStart(e: TouchEvent): void {
-    if (e.touches.length === 1) {
-      this.isDragging = true;
-      this.lastMouseX = e.touches[0].clientX;
-      this.lastMouseY = e.touches[0].clientY;
-
-      const hitObject = this.objectManager.getObjectAtPosition(
-        e.touches[0].clientX,
-        e.touches[0].clientY
-      );
-      if (hitObject) {
-        this.selectedObject = hitObject;
-      }
-    }
-  }
-
-  private onTouchMove(e: TouchEvent): void {
-    if (!this.isDragging || e.touches.length !== 1) return;
-
-    const deltaX = e.touches[0].clientX - this.lastMouseX;
-    const deltaY = e.touches[0].clientY - this.lastMouseY;
-
-    if (this.selectedObject) {
-      this.objectManager.rotateObject(this.selectedObject, deltaX * 0.01, deltaY * 0.01);
-    } else {
-      this.scene3D.orbitCamera(deltaX * 0.005, deltaY * 0.005);
-    }
-
-    this.lastMouseX = e.touches[0].clientX;
-    this.lastMouseY = e.touches[0].clientY;
-  }
-
   private onSceneClick(e: MouseEvent): void {
     const hitObject = this.objectManager.getObjectAtPosition(e.clientX, e.clientY);
     if (hitObject) {
@@ -480,10 +706,12 @@ class AirCanvas {
   private async init(): Promise<void> {
     try {
       // Start hand tracking
-      await this.handTracker.start((landmarks) => this.onHandResults(landmarks));
+      const source = await this.createLandmarkSource();
+      await this.handTracker.start((hands) => this.onHandResults(hands), source);
 
       // Setup camera preview
       this.setupCameraPreview();
+      this.setupCameraPicker();
 
       // Hide loading overlay
       this.loadingOverlay.classList.add('hidden');
@@ -492,10 +720,39 @@ class AirCanvas {
       this.animate();
     } catch (error) {
       console.error('Failed to initialize:', error);
+
+      if (error instanceof AssetLoadError) {
+        // Keep the overlay up with a retry instead of blaming the camera
+        const message = document.getElementById('loading-error-message');
+        if (message) {
+          message.textContent = `Couldn't load the hand tracking model: ${error.message}. Check your connection and retry.`;
+        }
+        this.loadingOverlay.classList.add('error');
+        return;
+      }
+
       this.showStatus('Camera access denied. Please allow camera access and refresh.');
     }
   }
 
+  // ?replay=<url> plays back a recorded session, ?synthetic runs a scripted hand
+  private async createLandmarkSource(): Promise<LandmarkSource | undefined> {
+    const params = new URLSearchParams(window.location.search);
+
+    const replayUrl = params.get('replay');
+    if (replayUrl) {
+      const replay = await ReplayLandmarkSource.fromUrl(replayUrl, params.has('loop'));
+      replay.onColorChange(color => this.selectColorValue(color));
+      return replay;
+    }
+
+    if (params.has('synthetic')) {
+      return new SyntheticLandmarkSource();
+    }
+
+    return undefined;
+  }
+
   private setupCameraPreview(): void {
     // Get the video stream from the hand tracker and display in preview
     const webcam = document.getElementById('webcam') as HTMLVideoElement;
@@ -504,230 +761,1411 @@ class AirCanvas {
       this.previewVideo.play();
     }
 
+    // Follow camera switches
+    this.handTracker.getWebcamSource().onStreamChange((stream) => {
+      this.previewVideo.srcObject = stream;
+      this.previewVideo.play();
+    });
+
     // Set preview canvas size (4:3 ratio to match camera)
     this.previewCanvas.width = 320;
     this.previewCanvas.height = 240;
   }
 
-  private resize(): void {
-    const width = window.innerWidth;
-    const height = window.innerHeight;
-
-    this.handTracker.setCanvasSize(width, height);
-    this.drawingCanvas.resize(width, height);
-    this.handVisualizer.resize(width, height);
-    this.scene3D.resize(width, height);
-    this.objectManager.updateSize(width, height);
+  private loadCameraSettings(): CameraSettings {
+    try {
+      const saved = localStorage.getItem(CAMERA.STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<Record<keyof CameraSettings, unknown>>;
+        // An unknown preset would fail getUserMedia and look like a denied camera
+        const preset = typeof parsed.preset === 'string' && Object.keys(CAMERA.PRESETS).includes(parsed.preset)
+          ? parsed.preset as CameraPreset
+          : CAMERA.DEFAULT_PRESET;
+        const deviceId = typeof parsed.deviceId === 'string' ? parsed.deviceId : undefined;
+        return { deviceId, preset };
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
+    }
+    return { preset: CAMERA.DEFAULT_PRESET };
   }
 
-  private onHandResults(landmarks: HandLandmarks | null): void {
-    const wasDetected = this.handDetected;
-    this.handDetected = landmarks !== null;
-    this.currentLandmarks = landmarks;
-
-    // Show/hide hand detection message
-    if (!this.handDetected && wasDetected) {
-      this.showStatus('Show your hand to begin');
-    } else if (this.handDetected && !wasDetected) {
-      this.hideStatus();
+  private saveCameraSettings(settings: CameraSettings): void {
+    try {
+      localStorage.setItem(CAMERA.STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // Storage may be disabled; the camera still switches for this session
     }
+  }
 
-    // Render hand tracking on preview canvas
-    this.renderPreviewOverlay(landmarks);
+  private setupCameraPicker(): void {
+    const webcam = this.handTracker.getWebcamSource();
+    const deviceSelect = document.getElementById('camera-device') as HTMLSelectElement | null;
+    const presetSelect = document.getElementById('camera-preset') as HTMLSelectElement | null;
+    if (!deviceSelect || !presetSelect) return;
+
+    // Device labels are only available once camera permission has been granted
+    const populateDevices = async () => {
+      const cameras = await webcam.listCameras();
+      const current = webcam.getCameraSettings().deviceId ?? '';
+
+      deviceSelect.innerHTML = '';
+      deviceSelect.add(new Option('Default camera', ''));
+      cameras.forEach((camera, i) => {
+        deviceSelect.add(new Option(camera.label || `Camera ${i + 1}`, camera.deviceId));
+      });
+      deviceSelect.value = cameras.some(c => c.deviceId === current) ? current : '';
+    };
 
-    if (!landmarks) {
-      // Pause drawing if hand leaves
-      if (this.isDrawing) {
-        this.isDrawing = false;
+    const applySettings = async (settings: Partial<CameraSettings>) => {
+      try {
+        await webcam.setCamera(settings);
+        this.saveCameraSettings(webcam.getCameraSettings());
+      } catch (error) {
+        console.error('Failed to switch camera:', error);
+        this.showStatus('Could not open that camera', 2000);
       }
-      return;
-    }
-
-    // Detect gesture
-    const gestureState = this.gestureDetector.detect(landmarks);
+      deviceSelect.value = webcam.getCameraSettings().deviceId ?? '';
+      presetSelect.value = webcam.getCameraSettings().preset;
+    };
 
-    // Handle gesture
-    this.handleGesture(gestureState, landmarks);
+    presetSelect.value = webcam.getCameraSettings().preset;
+    populateDevices();
 
-    this.lastGestureState = gestureState;
-  }
+    deviceSelect.addEventListener('change', () => {
+      applySettings({ deviceId: deviceSelect.value || undefined });
+    });
 
-  private renderPreviewOverlay(landmarks: HandLandmarks | null): void {
-    const previewWidth = this.previewCanvas.width || 320;
-    const previewHeight = this.previewCanvas.height || 240;
-    this.previewCtx.clearRect(0, 0, previewWidth, previewHeight);
+    presetSelect.addEventListener('change', () => {
+      applySettings({ preset: presetSelect.value as CameraPreset });
+    });
 
-    if (!landmarks) return;
+    // USB cameras plugged in or removed while the app is open
+    navigator.mediaDevices.addEventListener('devicechange', () => populateDevices());
+  }
 
-    // Use uniform scaling to maintain aspect ratio (same as main screen)
-    const scale = Math.min(previewWidth / window.innerWidth, previewHeight / window.innerHeight);
-    const offsetX = (previewWidth - window.innerWidth * scale) / 2;
-    const offsetY = (previewHeight - window.innerHeight * scale) / 2;
+  private loadMappingSettings(): MappingSettings {
+    try {
+      const saved = localStorage.getItem(MAPPING.STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<Record<keyof MappingSettings, unknown>>;
+        // An unknown mode would silently map like 'stretch' and match no option in the picker
+        const mode = typeof parsed.mode === 'string' && MAPPING.MODES.includes(parsed.mode as MappingMode)
+          ? parsed.mode as MappingMode
+          : MAPPING.DEFAULT.mode;
+
+        // Missing or non-numeric fields take the default's; the result is kept inside the frame
+        const region = (parsed.region ?? {}) as Partial<Record<keyof ActiveRegion, unknown>>;
+        const field = (key: keyof ActiveRegion) => {
+          const value = region[key];
+          return typeof value === 'number' && Number.isFinite(value) ? value : MAPPING.DEFAULT.region[key];
+        };
+        return {
+          mode,
+          region: clampRegion({ x: field('x'), y: field('y'), width: field('width'), height: field('height') })
+        };
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
+    }
+    return MAPPING.DEFAULT;
+  }
 
-    // Draw hand skeleton connections
-    const connections = [
-      [0, 1], [1, 2], [2, 3], [3, 4],
-      [0, 5], [5, 6], [6, 7], [7, 8],
-      [0, 9], [9, 10], [10, 11], [11, 12],
-      [0, 13], [13, 14], [14, 15], [15, 16],
-      [0, 17], [17, 18], [18, 19], [19, 20],
-      [5, 9], [9, 13], [13, 17]
-    ];
+  private setupMappingControls(): void {
+    const mapper = this.handTracker.getMapper();
+    const modeSelect = document.getElementById('mapping-mode') as HTMLSelectElement | null;
+    const regionControls = document.getElementById('region-controls');
+    const sizeInput = document.getElementById('region-size') as HTMLInputElement | null;
+    const xInput = document.getElementById('region-x') as HTMLInputElement | null;
+    const yInput = document.getElementById('region-y') as HTMLInputElement | null;
+    if (!modeSelect || !regionControls || !sizeInput || !xInput || !yInput) return;
+
+    // Region sliders describe a square around a center point, in percent of the camera frame
+    const settings = mapper.getSettings();
+    modeSelect.value = settings.mode;
+    sizeInput.value = String(Math.round(settings.region.width * 100));
+    xInput.value = String(Math.round((settings.region.x + settings.region.width / 2) * 100));
+    yInput.value = String(Math.round((settings.region.y + settings.region.height / 2) * 100));
+    regionControls.hidden = settings.mode !== 'region';
+
+    const apply = () => {
+      const size = Number(sizeInput.value) / 100;
+      const centerX = Number(xInput.value) / 100;
+      const centerY = Number(yInput.value) / 100;
+
+      mapper.setSettings({
+        mode: modeSelect.value as MappingMode,
+        region: { x: centerX - size / 2, y: centerY - size / 2, width: size, height: size }
+      });
+      regionControls.hidden = modeSelect.value !== 'region';
 
-    // Scale line width and joint size based on preview size
-    const uiScale = previewWidth / 320;
-    this.previewCtx.strokeStyle = '#bee17d';
-    this.previewCtx.lineWidth = 2 * uiScale;
+      try {
+        localStorage.setItem(MAPPING.STORAGE_KEY, JSON.stringify(mapper.getSettings()));
+      } catch {
+        // Storage may be disabled; the mapping still applies for this session
+      }
+    };
 
-    for (const [from, to] of connections) {
-      const start = landmarks.landmarks[from];
-      const end = landmarks.landmarks[to];
+    modeSelect.addEventListener('change', apply);
+    [sizeInput, xInput, yInput].forEach(input => input.addEventListener('input', apply));
+  }
 
-      this.previewCtx.beginPath();
-      this.previewCtx.moveTo(start.x * scale + offsetX, start.y * scale + offsetY);
-      this.previewCtx.lineTo(end.x * scale + offsetX, end.y * scale + offsetY);
-      this.previewCtx.stroke();
+  private loadInferenceTarget(): number {
+    try {
+      const saved = localStorage.getItem(INFERENCE.STORAGE_KEY);
+      if (saved !== null && !Number.isNaN(Number(saved))) {
+        return Number(saved);
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
     }
+    return INFERENCE.TARGET_LATENCY;
+  }
 
-    // Draw joints
-    this.previewCtx.fillStyle = '#bee17d';
-    for (const lm of landmarks.landmarks) {
-      this.previewCtx.beginPath();
-      this.previewCtx.arc(lm.x * scale + offsetX, lm.y * scale + offsetY, 3 * uiScale, 0, Math.PI * 2);
-      this.previewCtx.fill();
+  private loadPushToDraw(): boolean {
+    try {
+      return localStorage.getItem(DEPTH.PUSH_STORAGE_KEY) === 'true';
+    } catch {
+      // Fall back to point to draw if storage is unavailable
     }
+    return false;
   }
 
-  private handleGesture(state: GestureState, landmarks: HandLandmarks): void {
-    const indexTip = this.gestureDetector.getIndexTip(landmarks);
-
-    switch (state.current) {
-      case 'draw':
-        this.handleDraw(indexTip);
-        break;
+  private setPushToDraw(enabled: boolean): void {
+    this.gestureDetectors.left.setPushToDraw(enabled);
+    this.gestureDetectors.right.setPushToDraw(enabled);
+  }
 
-      case 'pinch':
-        this.handlePinch(landmarks);
-        break;
+  private setupPenControls(): void {
+    const select = document.getElementById('pen-mode') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.value = this.gestureDetectors.right.isPushToDraw() ? 'push' : 'point';
+    select.addEventListener('change', () => {
+      const enabled = select.value === 'push';
+      this.setPushToDraw(enabled);
+      try {
+        localStorage.setItem(DEPTH.PUSH_STORAGE_KEY, String(enabled));
+      } catch {
+        // Storage may be disabled; the mode still applies for this session
+      }
+    });
+  }
 
-      case 'palm':
-        this.handlePalm();
-        break;
+  private loadMultiContour(): boolean {
+    try {
+      return localStorage.getItem(CONTOURS.STORAGE_KEY) === 'true';
+    } catch {
+      // Fall back to one outline per balloon if storage is unavailable
+    }
+    return false;
+  }
 
-      case 'swipe':
-        this.handleSwipe(indexTip);
-        break;
+  private setupShapeControls(): void {
+    const select = document.getElementById('shape-mode') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.value = this.multiContour ? 'combine' : 'single';
+    select.addEventListener('change', () => {
+      this.multiContour = select.value === 'combine';
+      try {
+        localStorage.setItem(CONTOURS.STORAGE_KEY, String(this.multiContour));
+      } catch {
+        // Storage may be disabled; the mode still applies for this session
+      }
 
-      default:
-        // Release grabbed object if gesture changes
-        if (this.grabbedObject) {
-          this.objectManager.releaseObject(this.grabbedObject);
-          this.grabbedObject = null;
-          this.lastPinchPosition = null;
-        }
-        break;
-    }
+      // Single mode has no way to inflate outlines left waiting, so they go now
+      if (!this.multiContour && this.drawingCanvas.getContours().length > 0) {
+        this.inflateContours();
+      }
+    });
+  }
 
-    // Reset timers and clear live position if gesture changed
-    if (this.lastGestureState && state.current !== this.lastGestureState.current) {
-      this.palmHoldStart = 0;
-      // Clear live position when leaving draw mode
-      if (this.lastGestureState.current === 'draw') {
-        this.drawingCanvas.clearLivePosition();
+  private loadSnapMode(): ShapeSnapMode {
+    try {
+      const saved = localStorage.getItem(SHAPES.STORAGE_KEY);
+      if (saved === 'off' || saved === 'ask' || saved === 'auto') {
+        return saved;
       }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
     }
+    return SHAPES.DEFAULT_MODE;
   }
 
-  private handleDraw(position: { x: number; y: number }): void {
-    // Always update live position for real-time line feedback
-    this.drawingCanvas.updateLivePosition(position);
+  private setupSnapControls(): void {
+    const select = document.getElementById('shape-snap') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.value = this.snapMode;
+    select.addEventListener('change', () => {
+      this.snapMode = select.value as ShapeSnapMode;
+      try {
+        localStorage.setItem(SHAPES.STORAGE_KEY, this.snapMode);
+      } catch {
+        // Storage may be disabled; the mode still applies for this session
+      }
+    });
+  }
 
-    // Check if poking an object
-    const hitObject = this.objectManager.getObjectAtPosition(position.x, position.y);
-    if (hitObject) {
-      this.objectManager.pokeObject(hitObject);
-      return;
+  private loadStrokeWidthMode(): StrokeWidthMode {
+    try {
+      const saved = localStorage.getItem(STROKE_WIDTH.STORAGE_KEY);
+      if (saved === 'constant' || saved === 'speed' || saved === 'depth') {
+        return saved;
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
     }
+    return STROKE_WIDTH.DEFAULT_MODE;
+  }
 
-    if (!this.isDrawing) {
-      // Start new stroke
-      this.isDrawing = true;
-      this.drawingCanvas.startStroke(position, this.currentColor);
-    } else {
-      // Continue stroke
-      this.drawingCanvas.addPoint(position);
-    }
+  private setupStrokeWidthControls(): void {
+    const select = document.getElementById('stroke-width-mode') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.value = this.drawingCanvas.getWidthMode();
+    select.addEventListener('change', () => {
+      const mode = select.value as StrokeWidthMode;
+      this.drawingCanvas.setWidthMode(mode);
+      try {
+        localStorage.setItem(STROKE_WIDTH.STORAGE_KEY, mode);
+      } catch {
+        // Storage may be disabled; the mode still applies for this session
+      }
+    });
+  }
 
-    // Render immediately for lowest latency (don't wait for animation frame)
-    this.drawingCanvas.render();
+  private loadSmoothing(): SmoothingSettings {
+    try {
+      const saved = localStorage.getItem(SMOOTHING.STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<Record<keyof SmoothingSettings, unknown>>;
+        const number = (value: unknown, valid: (n: number) => boolean, fallback: number) =>
+          typeof value === 'number' && Number.isFinite(value) && valid(value) ? value : fallback;
+        const defaults = SMOOTHING.DEFAULT;
+
+        // Each field falls back on its own; an unknown filter would otherwise mean no smoothing
+        return {
+          filter: parsed.filter === 'one-euro' || parsed.filter === 'exponential' || parsed.filter === 'moving-average'
+            ? parsed.filter
+            : defaults.filter,
+          deadZone: number(parsed.deadZone, n => n >= 0, defaults.deadZone),
+          minCutoff: number(parsed.minCutoff, n => n > 0, defaults.minCutoff),
+          beta: number(parsed.beta, n => n >= 0, defaults.beta),
+          alpha: number(parsed.alpha, n => n > 0 && n <= 1, defaults.alpha),
+          window: number(parsed.window, n => n >= 1, defaults.window)
+        };
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
+    }
+    return { ...SMOOTHING.DEFAULT };
   }
 
-  private handlePinch(landmarks: HandLandmarks): void {
-    const pinchCenter = this.gestureDetector.getPinchCenter(landmarks);
+  // Sliders apply as they move; a stroke in progress keeps its settings and the next one uses them
+  private setupSmoothingControls(): void {
+    const filterSelect = document.getElementById('smoothing-filter') as HTMLSelectElement | null;
+    const resetBtn = document.getElementById('smoothing-reset-btn');
+    const inputs: Record<Exclude<keyof SmoothingSettings, 'filter'>, HTMLInputElement | null> = {
+      deadZone: document.getElementById('smoothing-dead-zone') as HTMLInputElement | null,
+      minCutoff: document.getElementById('smoothing-min-cutoff') as HTMLInputElement | null,
+      beta: document.getElementById('smoothing-beta') as HTMLInputElement | null,
+      alpha: document.getElementById('smoothing-alpha') as HTMLInputElement | null,
+      window: document.getElementById('smoothing-window') as HTMLInputElement | null
+    };
+    if (!filterSelect) return;
 
-    if (this.isDrawing) {
-      // Pause drawing but keep stroke
-      this.isDrawing = false;
-      this.drawingCanvas.pauseStroke();
-    }
+    // Only the chosen filter's parameters are shown
+    const showParams = () => {
+      document.querySelectorAll<HTMLElement>('[data-smoothing-filter]').forEach(group => {
+        group.hidden = group.dataset.smoothingFilter !== filterSelect.value;
+      });
+    };
 
-    // Check if grabbing an object
-    if (!this.grabbedObject) {
-      const hitObject = this.objectManager.getObjectAtPosition(pinchCenter.x, pinchCenter.y);
-      if (hitObject) {
-        this.grabbedObject = hitObject;
-        this.objectManager.grabObject(hitObject);
-        this.lastPinchPosition = pinchCenter;
+    const fill = (settings: SmoothingSettings) => {
+      filterSelect.value = settings.filter;
+      for (const [key, input] of Object.entries(inputs)) {
+        if (input) input.value = String(settings[key as keyof typeof inputs]);
       }
-    } else {
-      // Move and rotate grabbed object based on hand movement
-      if (this.lastPinchPosition) {
-        const deltaX = pinchCenter.x - this.lastPinchPosition.x;
-        const deltaY = pinchCenter.y - this.lastPinchPosition.y;
+      showParams();
+    };
 
-        // Move the object
-        this.objectManager.moveGrabbedObject(this.grabbedObject, pinchCenter.x, pinchCenter.y);
+    const apply = (settings: SmoothingSettings) => {
+      this.drawingCanvas.setSmoothing(settings);
+      try {
+        localStorage.setItem(SMOOTHING.STORAGE_KEY, JSON.stringify(settings));
+      } catch {
+        // Storage may be disabled; the smoothing still applies for this session
+      }
+    };
 
-        // Rotate based on movement
-        this.objectManager.rotateObject(this.grabbedObject, deltaX * 0.02, deltaY * 0.02);
+    const read = (): SmoothingSettings => {
+      const settings = { ...this.drawingCanvas.getSmoothing(), filter: filterSelect.value as SmoothingFilterType };
+      for (const [key, input] of Object.entries(inputs)) {
+        if (input) settings[key as keyof typeof inputs] = Number(input.value);
       }
-      this.lastPinchPosition = pinchCenter;
-    }
-  }
+      return settings;
+    };
 
-  private handlePalm(): void {
-    // Release any grabbed object
-    if (this.grabbedObject) {
-      this.objectManager.releaseObject(this.grabbedObject);
-      this.grabbedObject = null;
-      this.lastPinchPosition = null;
-    }
+    fill(this.drawingCanvas.getSmoothing());
 
-    // Track palm hold time
-    if (this.palmHoldStart === 0) {
-      this.palmHoldStart = performance.now();
-    }
+    filterSelect.addEventListener('change', () => {
+      showParams();
+      apply(read());
+    });
+    Object.values(inputs).forEach(input => input?.addEventListener('input', () => apply(read())));
+
+    resetBtn?.addEventListener('click', () => {
+      fill(SMOOTHING.DEFAULT);
+      apply({ ...SMOOTHING.DEFAULT });
+    });
+  }
 
-    const holdDuration = performance.now() - this.palmHoldStart;
+  private setupInferenceControls(): void {
+    const webcam = this.handTracker.getWebcamSource();
+    const governor = webcam.getGovernor();
+    const targetSelect = document.getElementById('inference-target') as HTMLSelectElement | null;
+    const status = document.getElementById('inference-status');
+    if (!targetSelect || !status) return;
+
+    targetSelect.value = String(governor.getTargetLatency());
+
+    targetSelect.addEventListener('change', () => {
+      governor.setTargetLatency(Number(targetSelect.value));
+      try {
+        localStorage.setItem(INFERENCE.STORAGE_KEY, targetSelect.value);
+      } catch {
+        // Storage may be disabled; the target still applies for this session
+      }
+    });
 
-    if (holdDuration >= GESTURE.PALM_HOLD_TIME) {
-      // Close and inflate current stroke
-      this.closeAndInflate();
-      this.palmHoldStart = 0;
-    }
+    // Report what the governor settled on so slow machines can see why tracking looks coarser
+    webcam.onInferenceChange((settings, latency) => {
+      status.textContent = `${this.describeInference(settings)} · ~${Math.round(latency)}ms per frame`;
+    });
   }
 
-  private handleSwipe(position: { x: number; y: number }): void {
-    // Check if swiping on an object
-    const hitObject = this.objectManager.getObjectAtPosition(position.x, position.y);
-    if (hitObject) {
-      this.objectManager.removeObject(hitObject);
-    }
+  private describeInference(settings: InferenceSettings): string {
+    const model = settings.modelComplexity === 1 ? 'Full model' : 'Lite model';
+    const resolution = settings.inputScale < 1
+      ? `${Math.round(settings.inputScale * 100)}% resolution`
+      : 'full resolution';
+    const rate = settings.frameSkip > 0 ? `every ${settings.frameSkip + 1} frames` : 'every frame';
+    return `${model} · ${resolution} · ${rate}`;
   }
 
-  private async closeAndInflate(): Promise<void> {
-    const stroke = this.drawingCanvas.closeStroke();
-    this.drawingCanvas.clearLivePosition();
+  private loadGestureBindings(): BindingTable {
+    try {
+      const saved = localStorage.getItem(BINDINGS.STORAGE_KEY);
+      if (saved) {
+        return { ...BINDINGS.DEFAULTS, ...JSON.parse(saved) };
+      }
+    } catch {
+      // Fall back to defaults if storage is unavailable or corrupt
+    }
+    return BINDINGS.DEFAULTS;
+  }
+
+  // One select per gesture; edits only apply (and save) once the table has no conflicts
+  private setupBindingControls(): void {
+    const container = document.getElementById('gesture-bindings');
+    const conflictsEl = document.getElementById('binding-conflicts');
+    const resetBtn = document.getElementById('bindings-reset-btn');
+    if (!container || !conflictsEl) return;
+
+    const selects = new Map<GestureType, HTMLSelectElement>();
+
+    const render = () => {
+      container.innerHTML = '';
+      selects.clear();
+      const bindings = this.gestureBindings.getBindings();
+
+      for (const [gesture, label] of Object.entries(this.gestureBindings.getGestureLabels()) as [GestureType, string][]) {
+        const row = document.createElement('div');
+        row.className = 'settings-row';
+
+        const labelEl = document.createElement('label');
+        labelEl.htmlFor = `binding-${gesture}`;
+        labelEl.textContent = label;
+
+        const select = document.createElement('select');
+        select.id = `binding-${gesture}`;
+        this.actionRegistry.list().forEach(action => select.add(new Option(action.label, action.id)));
+        select.value = bindings[gesture] ?? 'none';
+        select.addEventListener('change', apply);
+
+        row.append(labelEl, select);
+        container.appendChild(row);
+        selects.set(gesture, select);
+      }
+      showConflicts([]);
+    };
+
+    const showConflicts = (conflicts: BindingConflict[]) => {
+      conflictsEl.textContent = conflicts.map(c => c.message).join('. ');
+      conflictsEl.hidden = conflicts.length === 0;
+      selects.forEach((select, gesture) => {
+        select.classList.toggle('conflict', conflicts.some(c => c.gestures.includes(gesture)));
+      });
+    };
+
+    const apply = () => {
+      const table: BindingTable = {};
+      selects.forEach((select, gesture) => {
+        table[gesture] = select.value;
+      });
+
+      const conflicts = this.gestureBindings.findConflicts(table);
+      showConflicts(conflicts);
+      if (conflicts.length > 0) return;
+
+      this.gestureBindings.setBindings(table);
+      this.saveGestureBindings();
+    };
+
+    resetBtn?.addEventListener('click', () => {
+      this.gestureBindings.reset();
+      this.saveGestureBindings();
+      render();
+    });
+
+    this.refreshBindingControls = render;
+    render();
+  }
+
+  private loadCustomGestures(): CustomGesture[] {
+    try {
+      const saved = localStorage.getItem(TEMPLATES.STORAGE_KEY);
+      if (saved) {
+        return parseCustomGestures(saved);
+      }
+    } catch {
+      // Fall back to no custom gestures if storage is unavailable or corrupt
+    }
+    return [];
+  }
+
+  private saveCustomGestures(): void {
+    try {
+      localStorage.setItem(TEMPLATES.STORAGE_KEY, serializeCustomGestures(this.templateClassifier.getGestures()));
+    } catch {
+      // Storage may be disabled; the gestures still work for this session
+    }
+  }
+
+  private customGestureLabels(): Partial<Record<GestureType, string>> {
+    return Object.fromEntries(this.templateClassifier.getGestures().map(g => [g.id, g.name]));
+  }
+
+  // Adds or replaces gestures (matched by id) and makes them bindable
+  private addCustomGestures(gestures: CustomGesture[]): void {
+    const ids = new Set(gestures.map(g => g.id));
+    this.templateClassifier.setGestures([
+      ...this.templateClassifier.getGestures().filter(g => !ids.has(g.id)),
+      ...gestures
+    ]);
+    gestures.forEach(g => this.gestureBindings.addGesture(g.id, g.name));
+
+    this.saveCustomGestures();
+    this.saveGestureBindings();
+    this.refreshBindingControls();
+  }
+
+  private removeCustomGesture(id: GestureType): void {
+    this.templateClassifier.setGestures(this.templateClassifier.getGestures().filter(g => g.id !== id));
+    this.gestureBindings.removeGesture(id);
+
+    this.saveCustomGestures();
+    this.saveGestureBindings();
+    this.refreshBindingControls();
+  }
+
+  private setupCustomGestureControls(): void {
+    const nameInput = document.getElementById('custom-gesture-name') as HTMLInputElement | null;
+    const recordBtn = document.getElementById('custom-gesture-record');
+    const list = document.getElementById('custom-gesture-list');
+    const exportBtn = document.getElementById('custom-gesture-export');
+    const importBtn = document.getElementById('custom-gesture-import');
+    const importInput = document.getElementById('custom-gesture-file') as HTMLInputElement | null;
+    if (!nameInput || !recordBtn || !list) return;
+
+    const renderList = () => {
+      list.innerHTML = '';
+      for (const gesture of this.templateClassifier.getGestures()) {
+        const row = document.createElement('div');
+        row.className = 'settings-row';
+
+        const label = document.createElement('span');
+        label.textContent = `${gesture.name} (${gesture.samples.length} samples)`;
+
+        const removeBtn = document.createElement('button');
+        removeBtn.className = 'copy-btn';
+        removeBtn.title = `Delete ${gesture.name}`;
+        removeBtn.textContent = '✕';
+        removeBtn.addEventListener('click', () => {
+          this.removeCustomGesture(gesture.id);
+          renderList();
+        });
+
+        row.append(label, removeBtn);
+        list.appendChild(row);
+      }
+    };
+
+    recordBtn.addEventListener('click', () => {
+      const name = nameInput.value.trim();
+      if (!name) {
+        nameInput.focus();
+        return;
+      }
+
+      // Recording happens in onHandResults once the countdown ends
+      this.settingsModal.classList.remove('visible');
+      this.training = {
+        id: customGestureId(name),
+        name,
+        samples: [],
+        startAt: this.clock.now() + TEMPLATES.COUNTDOWN
+      };
+      this.showStatus(`Get ready to show "${name}"...`);
+      nameInput.value = '';
+    });
+
+    exportBtn?.addEventListener('click', () => {
+      downloadCustomGestures(this.templateClassifier.getGestures());
+    });
+
+    importBtn?.addEventListener('click', () => importInput?.click());
+    importInput?.addEventListener('change', async () => {
+      const file = importInput.files?.[0];
+      importInput.value = '';
+      if (!file) return;
+
+      try {
+        const gestures = parseCustomGestures(await file.text());
+        this.addCustomGestures(gestures);
+        renderList();
+        this.showStatus(`Imported ${gestures.length} gestures`, 2000);
+      } catch (error) {
+        console.error('Failed to import gestures:', error);
+        const reason = error instanceof SyntaxError ? 'Not a valid gesture file' : (error as Error).message;
+        this.showStatus(reason, 2500);
+      }
+    });
+
+    this.onCustomGesturesChanged = renderList;
+    renderList();
+  }
+
+  // Collects one feature vector per frame from the drawing hand while training
+  private captureTrainingSample(hand: HandLandmarks | null): void {
+    const training = this.training;
+    if (!training) return;
+
+    const remaining = training.startAt - this.clock.now();
+    if (remaining > 0) {
+      this.showStatus(`Hold your "${training.name}" pose... ${Math.ceil(remaining / 1000)}`);
+      return;
+    }
+
+    const features = hand ? extractPoseFeatures(hand) : null;
+    if (features) {
+      training.samples.push(features);
+      this.showStatus(`Recording "${training.name}" ${training.samples.length}/${TEMPLATES.SAMPLES}`);
+    }
+
+    if (training.samples.length < TEMPLATES.SAMPLES) return;
+
+    this.training = null;
+    this.addCustomGestures([{
+      id: training.id,
+      name: training.name,
+      samples: training.samples,
+      createdAt: new Date().toISOString()
+    }]);
+    this.onCustomGesturesChanged();
+    this.showStatus(`Learned "${training.name}". Bind it under Settings → Gestures`, 3000);
+  }
+
+  private loadCalibration(): void {
+    try {
+      const saved = localStorage.getItem(CALIBRATION.STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as { active?: string | null; profiles?: CalibrationProfile[] };
+        // A profile with a broken threshold is dropped, so it falls back to the defaults
+        this.calibrationProfiles = (parsed.profiles ?? []).filter(p =>
+          typeof p.name === 'string' && isValidThresholds(p.thresholds)
+        );
+        this.activeProfile = parsed.active ?? null;
+      }
+    } catch {
+      // Fall back to the default thresholds if storage is unavailable or corrupt
+    }
+    this.applyCalibration(this.activeProfile);
+  }
+
+  private saveCalibration(): void {
+    try {
+      localStorage.setItem(CALIBRATION.STORAGE_KEY, JSON.stringify({
+        active: this.activeProfile,
+        profiles: this.calibrationProfiles
+      }));
+    } catch {
+      // Storage may be disabled; the profile still applies for this session
+    }
+  }
+
+  // null (or an unknown name) switches back to the default thresholds
+  private applyCalibration(name: string | null): void {
+    const profile = this.calibrationProfiles.find(p => p.name === name) ?? null;
+    this.activeProfile = profile?.name ?? null;
+
+    const thresholds = profile?.thresholds ?? CALIBRATION.DEFAULT_THRESHOLDS;
+    this.gestureDetectors.left.setThresholds(thresholds);
+    this.gestureDetectors.right.setThresholds(thresholds);
+  }
+
+  private setupCalibrationControls(): void {
+    const select = document.getElementById('calibration-profile') as HTMLSelectElement | null;
+    const nameInput = document.getElementById('calibration-name') as HTMLInputElement | null;
+    const startBtn = document.getElementById('calibration-start');
+    const deleteBtn = document.getElementById('calibration-delete');
+    if (!select || !nameInput || !startBtn) return;
+
+    const render = () => {
+      select.innerHTML = '';
+      select.appendChild(new Option('Default', ''));
+      for (const profile of this.calibrationProfiles) {
+        select.appendChild(new Option(profile.name, profile.name));
+      }
+      select.value = this.activeProfile ?? '';
+      if (deleteBtn) {
+        deleteBtn.hidden = this.activeProfile === null;
+      }
+    };
+
+    select.addEventListener('change', () => {
+      this.applyCalibration(select.value || null);
+      this.saveCalibration();
+      render();
+    });
+
+    startBtn.addEventListener('click', () => {
+      const name = nameInput.value.trim();
+      if (!name) {
+        nameInput.focus();
+        return;
+      }
+
+      // Recording happens in onHandResults, one pose at a time
+      this.settingsModal.classList.remove('visible');
+      this.calibrating = {
+        name,
+        calibrator: new GestureCalibrator(),
+        step: 0,
+        startAt: this.clock.now() + CALIBRATION.COUNTDOWN
+      };
+      nameInput.value = '';
+    });
+
+    deleteBtn?.addEventListener('click', () => {
+      this.calibrationProfiles = this.calibrationProfiles.filter(p => p.name !== this.activeProfile);
+      this.applyCalibration(null);
+      this.saveCalibration();
+      render();
+    });
+
+    this.onCalibrationChanged = render;
+    render();
+  }
+
+  // Walks the drawing hand through each calibration pose, recording CALIBRATION.SAMPLES frames of each
+  private captureCalibrationSample(hand: HandLandmarks | null): void {
+    const calibrating = this.calibrating;
+    if (!calibrating) return;
+
+    const step = CALIBRATION_STEPS[calibrating.step];
+    const stepLabel = `${calibrating.step + 1}/${CALIBRATION_STEPS.length}`;
+
+    const remaining = calibrating.startAt - this.clock.now();
+    if (remaining > 0) {
+      this.showStatus(`Calibrating ${stepLabel}: ${step.prompt}... ${Math.ceil(remaining / 1000)}`);
+      return;
+    }
+
+    if (hand && calibrating.calibrator.addSample(step.pose, hand)) {
+      const count = calibrating.calibrator.getSampleCount(step.pose);
+      this.showStatus(`Calibrating ${stepLabel}: ${step.prompt} ${count}/${CALIBRATION.SAMPLES}`);
+    }
+
+    if (calibrating.calibrator.getSampleCount(step.pose) < CALIBRATION.SAMPLES) return;
+
+    if (calibrating.step + 1 < CALIBRATION_STEPS.length) {
+      calibrating.step++;
+      calibrating.startAt = this.clock.now() + CALIBRATION.COUNTDOWN;
+      return;
+    }
+
+    this.calibrating = null;
+    try {
+      const profile = calibrating.calibrator.createProfile(calibrating.name);
+      this.calibrationProfiles = [...this.calibrationProfiles.filter(p => p.name !== profile.name), profile];
+      this.applyCalibration(profile.name);
+      this.saveCalibration();
+      this.onCalibrationChanged();
+      this.showStatus(`Calibrated for ${profile.name}`, 3000);
+    } catch (error) {
+      console.error('Calibration failed:', error);
+      this.showStatus(error instanceof Error ? error.message : 'Calibration failed', 4000);
+    }
+  }
+
+  private saveGestureBindings(): void {
+    try {
+      localStorage.setItem(BINDINGS.STORAGE_KEY, JSON.stringify(this.gestureBindings.getBindings()));
+    } catch {
+      // Storage may be disabled; the bindings still apply for this session
+    }
+  }
+
+  private resize(): void {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    this.handTracker.setCanvasSize(width, height);
+    this.drawingCanvas.resize(width, height);
+    this.handVisualizer.resize(width, height);
+    this.scene3D.resize(width, height);
+    this.objectManager.updateSize(width, height);
+  }
+
+  private onHandResults(hands: HandLandmarks[]): void {
+    const wasDetected = this.handDetected;
+    this.handDetected = hands.length > 0;
+    this.currentHands = hands;
+
+    // Show/hide hand detection message
+    if (!this.handDetected && wasDetected) {
+      this.showStatus('Show your hand to begin');
+    } else if (this.handDetected && !wasDetected) {
+      this.hideStatus();
+    }
+
+    // Render hand tracking on preview canvas
+    this.renderPreviewOverlay(hands);
+
+    const roles = this.assignRoles(hands);
+    this.currentLandmarks = hands.find((_, i) => roles[i] === 'draw') ?? null;
+    this.shortcutMenu = null;
+
+    // Hold gestures still while a custom pose is being recorded
+    if (this.training) {
+      this.captureTrainingSample(this.currentLandmarks);
+      return;
+    }
+    if (this.calibrating) {
+      this.captureCalibrationSample(this.currentLandmarks);
+      return;
+    }
+
+    // Hands only drop out here after the predictor's timeout, so this is a real loss
+    if (!this.currentLandmarks) {
+      // Pause drawing if the drawing hand leaves
+      if (this.isDrawing) {
+        this.isDrawing = false;
+      }
+    }
+
+    hands.forEach((hand, i) => this.frameRoles.set(this.handednessOf(hand), roles[i]));
+
+    // Depth estimates need the camera's focal length in screen pixels, which follows the mapping
+    const focalLength = this.handTracker.getMapper().getFocalLength();
+
+    // Detection fires the gesture events that drive each hand's role
+    hands.forEach((hand, i) => {
+      const detector = this.gestureDetectors[this.handednessOf(hand)];
+      detector.setFocalLength(focalLength);
+      const gestureState = detector.detect(hand);
+      if (roles[i] === 'draw') {
+        this.lastGestureState = gestureState;
+      }
+      this.updateFingerShortcut(hand, roles[i], gestureState);
+    });
+
+    // A lost hand's gesture ends, so it starts fresh when it comes back
+    for (const handedness of ['left', 'right'] as Handedness[]) {
+      if (!hands.some(hand => this.handednessOf(hand) === handedness)) {
+        this.gestureDetectors[handedness].detect(null);
+      }
+    }
+  }
+
+  private handednessOf(hand: HandLandmarks): Handedness {
+    return hand.handedness ?? 'right';
+  }
+
+  // A single visible hand always draws, so one-handed use keeps the full gesture set
+  private assignRoles(hands: HandLandmarks[]): HandRole[] {
+    if (hands.length === 1) return ['draw'];
+
+    let drawAssigned = false;
+    const seen = new Set<Handedness>();
+
+    return hands.map((hand): HandRole => {
+      // MediaPipe occasionally labels both hands the same; ignore the duplicate
+      const handedness = this.handednessOf(hand);
+      if (seen.has(handedness)) return 'none';
+      seen.add(handedness);
+
+      const role = this.handRoles[handedness];
+      if (role === 'draw') {
+        if (drawAssigned) return 'none';
+        drawAssigned = true;
+      }
+      return role;
+    });
+  }
+
+  private renderPreviewOverlay(hands: HandLandmarks[]): void {
+    const previewWidth = this.previewCanvas.width || 320;
+    const previewHeight = this.previewCanvas.height || 240;
+    this.previewCtx.clearRect(0, 0, previewWidth, previewHeight);
+
+    // The preview shows the camera frame with object-fit: cover, so map via camera space
+    const mapper = this.handTracker.getMapper();
+    const aspect = mapper.getImageAspect();
+    const fit = Math.max(previewWidth / aspect, previewHeight);
+    const imageWidth = aspect * fit;
+    const imageHeight = fit;
+    const offsetX = (previewWidth - imageWidth) / 2;
+    const offsetY = (previewHeight - imageHeight) / 2;
+    const toPreview = (p: { x: number; y: number }) => {
+      const image = mapper.toImage(p);
+      return { x: image.x * imageWidth + offsetX, y: image.y * imageHeight + offsetY };
+    };
+
+    // Outline the active region so users can see where to keep their hand
+    const mapping = mapper.getSettings();
+    if (mapping.mode === 'region') {
+      this.previewCtx.save();
+      this.previewCtx.strokeStyle = 'rgba(190, 225, 125, 0.6)';
+      this.previewCtx.setLineDash([6, 4]);
+      this.previewCtx.strokeRect(
+        mapping.region.x * imageWidth + offsetX,
+        mapping.region.y * imageHeight + offsetY,
+        mapping.region.width * imageWidth,
+        mapping.region.height * imageHeight
+      );
+      this.previewCtx.restore();
+    }
+
+    if (hands.length === 0) return;
+
+    // Draw hand skeleton connections
+    const connections = [
+      [0, 1], [1, 2], [2, 3], [3, 4],
+      [0, 5], [5, 6], [6, 7], [7, 8],
+      [0, 9], [9, 10], [10, 11], [11, 12],
+      [0, 13], [13, 14], [14, 15], [15, 16],
+      [0, 17], [17, 18], [18, 19], [19, 20],
+      [5, 9], [9, 13], [13, 17]
+    ];
+
+    // Scale line width and joint size based on preview size
+    const uiScale = previewWidth / 320;
+    this.previewCtx.strokeStyle = '#bee17d';
+    this.previewCtx.lineWidth = 2 * uiScale;
+
+    this.previewCtx.fillStyle = '#bee17d';
+
+    for (const landmarks of hands) {
+      for (const [from, to] of connections) {
+        const start = toPreview(landmarks.landmarks[from]);
+        const end = toPreview(landmarks.landmarks[to]);
+
+        this.previewCtx.beginPath();
+        this.previewCtx.moveTo(start.x, start.y);
+        this.previewCtx.lineTo(end.x, end.y);
+        this.previewCtx.stroke();
+      }
+
+      // Draw joints
+      for (const landmark of landmarks.landmarks) {
+        const lm = toPreview(landmark);
+        this.previewCtx.beginPath();
+        this.previewCtx.arc(lm.x, lm.y, 3 * uiScale, 0, Math.PI * 2);
+        this.previewCtx.fill();
+      }
+    }
+  }
+
+  // Both detectors report to the same handlers; the hand's role this frame picks the behavior
+  private setupGestureEvents(): void {
+    for (const handedness of ['left', 'right'] as Handedness[]) {
+      const detector = this.gestureDetectors[handedness];
+      const handle = (event: GestureEvent) => this.handleGesture(handedness, event);
+
+      detector.on('gesturestart', handle);
+      detector.on('gesturehold', handle);
+      detector.on('gestureend', handle);
+
+      // Hold progress follows whatever the gesture is currently bound to
+      detector.setHoldTimeResolver(gesture => {
+        const action = this.gestureBindings.getAction(gesture);
+        return action?.mode === 'hold' ? action.holdTime ?? 0 : null;
+      });
+    }
+  }
+
+  // A gesture stays with the role it started under, so a hand whose role changes mid-pinch
+  // still releases what it grabbed
+  private handleGesture(handedness: Handedness, event: GestureEvent): void {
+    if (event.type === 'gesturestart') {
+      this.gestureRoles.set(handedness, this.frameRoles.get(handedness) ?? 'none');
+    }
+    const role = this.gestureRoles.get(handedness) ?? this.frameRoles.get(handedness);
+    if (event.type === 'gestureend') {
+      this.gestureRoles.delete(handedness);
+    }
+
+    switch (role) {
+      case 'draw':
+        this.handleDrawingHand(event);
+        break;
+
+      case 'palette':
+        this.handlePaletteHand(event);
+        break;
+
+      case 'camera':
+        this.handleCameraHand(handedness, event);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  private handleDrawingHand(event: GestureEvent): void {
+    const action = this.gestureBindings.getAction(event.gesture);
+
+    if (event.type === 'gestureend') {
+      // Clear live position when leaving draw mode, and drop whatever was grabbed
+      if (action?.id === 'draw') {
+        this.drawingCanvas.clearLivePosition();
+        this.commitStrokeEdit();
+      }
+      if (action?.id === 'grab') {
+        this.releaseGrabbedObject();
+      }
+      return;
+    }
+
+    // Palette/tool mode borrows the hand's fingers for counting
+    if (!action || !event.landmarks || this.activeShortcutMode()) return;
+
+    const context = {
+      state: event.state,
+      landmarks: event.landmarks,
+      pointer: this.gestureDetectors[this.handednessOf(event.landmarks)].getIndexTip(event.landmarks)
+    };
+
+    switch (action.mode) {
+      case 'continuous':
+        action.run(context);
+        break;
+
+      case 'trigger':
+        if (event.type === 'gesturestart') {
+          action.run(context);
+        }
+        break;
+
+      case 'hold':
+        if (event.completed) {
+          action.run(context);
+        }
+        break;
+    }
+  }
+
+  // Everything a drawing-hand gesture can be bound to
+  private registerActions(): void {
+    const actions: GestureAction[] = [
+      { id: 'none', label: 'Nothing', mode: 'continuous', run: () => {} },
+      {
+        id: 'draw', label: 'Draw', mode: 'continuous', exclusive: true, required: true,
+        run: ({ pointer, state }) => this.handleDraw(pointer, state.depth)
+      },
+      {
+        id: 'grab', label: 'Grab and move', mode: 'continuous', exclusive: true,
+        run: ({ landmarks }) => this.handleGrab(landmarks)
+      },
+      {
+        id: 'inflate', label: 'Close and inflate', mode: 'hold', holdTime: GESTURE.PALM_HOLD_TIME, required: true,
+        run: () => this.closeAndInflate()
+      },
+      {
+        id: 'delete', label: 'Delete object', mode: 'continuous',
+        run: ({ pointer }) => this.handleDelete(pointer)
+      },
+      { id: 'keep-shape', label: 'Keep drawn shape (not the clean one)', mode: 'trigger', run: () => this.resolveSnap(false) },
+      { id: 'undo', label: 'Undo', mode: 'trigger', run: () => this.undo() },
+      { id: 'redo', label: 'Redo', mode: 'trigger', run: () => this.redo() },
+      { id: 'next-color', label: 'Next color', mode: 'trigger', run: () => this.cycleColor(1) },
+      { id: 'previous-color', label: 'Previous color', mode: 'trigger', run: () => this.cycleColor(-1) },
+      { id: 'palette-mode', label: 'Pick color by fingers', mode: 'trigger', run: () => this.enterShortcutMode('palette') },
+      { id: 'tool-mode', label: 'Pick tool by fingers', mode: 'trigger', run: () => this.enterShortcutMode('tools') },
+      { id: 'reset-camera', label: 'Reset view', mode: 'trigger', run: () => this.scene3D.resetCamera() },
+      { id: 'orbit-left', label: 'Orbit left', mode: 'trigger', run: () => this.scene3D.orbitCamera(-SCENE.NAV_ORBIT_STEP, 0) },
+      { id: 'orbit-right', label: 'Orbit right', mode: 'trigger', run: () => this.scene3D.orbitCamera(SCENE.NAV_ORBIT_STEP, 0) },
+      { id: 'orbit-up', label: 'Orbit up', mode: 'trigger', run: () => this.scene3D.orbitCamera(0, -SCENE.NAV_ORBIT_STEP) },
+      { id: 'orbit-down', label: 'Orbit down', mode: 'trigger', run: () => this.scene3D.orbitCamera(0, SCENE.NAV_ORBIT_STEP) },
+      { id: 'zoom-in', label: 'Zoom in', mode: 'trigger', run: () => this.scene3D.zoomCamera(-SCENE.NAV_ZOOM_STEP) },
+      { id: 'zoom-out', label: 'Zoom out', mode: 'trigger', run: () => this.scene3D.zoomCamera(SCENE.NAV_ZOOM_STEP) },
+      {
+        id: 'clear-all', label: 'Clear all', mode: 'hold', holdTime: GESTURE.FIST_HOLD_TIME,
+        run: () => this.clearAllAndBroadcast()
+      }
+    ];
+
+    actions.forEach(action => this.actionRegistry.register(action));
+  }
+
+  // Pinch steps to the next color; a swipe steps forwards or backwards
+  private handlePaletteHand(event: GestureEvent): void {
+    if (event.type !== 'gesturestart') return;
+
+    if (event.gesture === 'pinch') {
+      this.cycleColor(1);
+    } else if (event.gesture === 'swipe') {
+      this.cycleColor(event.state.velocity.x > 0 ? 1 : -1);
+    }
+  }
+
+  // Holding up 1-5 fingers picks a color or tool: always for a palette or tools hand, and for
+  // the drawing hand after a palette/tool mode action, until it picks or the mode times out
+  private updateFingerShortcut(hand: HandLandmarks, role: HandRole, state: GestureState): void {
+    const picker = this.fingerPickers[this.handednessOf(hand)];
+    const mode = role === 'palette' || role === 'tools' ? role : role === 'draw' ? this.activeShortcutMode() : null;
+
+    // A palette hand's pinch steps through colors, so it doesn't also count as two fingers
+    if (!mode || state.current === 'pinch') {
+      picker.reset();
+      return;
+    }
+
+    const options = this.shortcutOptions(mode);
+    const pick = picker.update(state, options.length);
+    this.shortcutMenu = { hand, options, highlighted: pick.index, progress: pick.progress };
+
+    if (!pick.picked || pick.index === null) return;
+
+    if (mode === 'palette') {
+      this.selectColorValue(COLOR_ARRAY[pick.index]);
+    } else {
+      this.tool = SHORTCUTS.TOOLS[pick.index].id;
+    }
+    this.handVisualizer.confirmShortcut(this.shortcutOptions(mode)[pick.index], hand);
+
+    if (role === 'draw') {
+      this.shortcutMode = null;
+      this.shortcutMenu = null;
+    }
+  }
+
+  private shortcutOptions(mode: ShortcutMode): ShortcutOption[] {
+    if (mode === 'palette') {
+      return Object.entries(COLORS).map(([name, color]) => ({
+        label: name.charAt(0).toUpperCase() + name.slice(1),
+        color
+      }));
+    }
+    return SHORTCUTS.TOOLS.map(tool => ({
+      label: tool.label,
+      color: tool.id === 'eraser' ? '#FFFFFF' : this.currentColor
+    }));
+  }
+
+  private enterShortcutMode(mode: ShortcutMode): void {
+    // Put the pen down first, so counting fingers doesn't draw
+    if (this.isDrawing) {
+      this.isDrawing = false;
+      this.drawingCanvas.pauseStroke();
+    }
+    this.drawingCanvas.clearLivePosition();
+    this.commitStrokeEdit();
+    this.shortcutMode = { mode, until: this.clock.now() + SHORTCUTS.MODE_TIMEOUT };
+    const count = this.shortcutOptions(mode).length;
+    this.showStatus(`Hold up 1-${count} fingers to pick a ${mode === 'palette' ? 'color' : 'tool'}`, 1500);
+  }
+
+  private activeShortcutMode(): ShortcutMode | null {
+    if (this.shortcutMode && this.clock.now() > this.shortcutMode.until) {
+      this.shortcutMode = null;
+    }
+    return this.shortcutMode?.mode ?? null;
+  }
+
+  // Pinch and drag orbits the camera; a fist resets the view
+  private handleCameraHand(handedness: Handedness, event: GestureEvent): void {
+    if (event.gesture === 'pinch') {
+      if (event.type === 'gestureend' || !event.landmarks) {
+        this.lastCameraPinch = null;
+        return;
+      }
+
+      const pinchCenter = this.gestureDetectors[handedness].getPinchCenter(event.landmarks);
+      if (this.lastCameraPinch) {
+        this.scene3D.orbitCamera(
+          (pinchCenter.x - this.lastCameraPinch.x) * 0.005,
+          (pinchCenter.y - this.lastCameraPinch.y) * 0.005
+        );
+      }
+      this.lastCameraPinch = pinchCenter;
+      return;
+    }
+
+    if (event.gesture === 'fist' && event.type === 'gesturestart') {
+      this.scene3D.resetCamera();
+    }
+  }
+
+  private handleDraw(position: { x: number; y: number }, depth: number | null = null): void {
+    // The eraser removes objects under the fingertip instead of drawing
+    if (this.tool === 'eraser') {
+      if (this.isDrawing) {
+        this.isDrawing = false;
+        this.drawingCanvas.pauseStroke();
+        this.commitStrokeEdit();
+      }
+      this.handleDelete(position);
+      return;
+    }
+
+    if (this.snapOffer) return;
+
+    // Always update live position for real-time line feedback
+    this.drawingCanvas.updateLivePosition(position);
+
+    // Check if poking an object
+    const hitObject = this.objectManager.getObjectAtPosition(position.x, position.y);
+    if (hitObject) {
+      this.objectManager.pokeObject(hitObject);
+      return;
+    }
+
+    this.beginStrokeEdit();
+    if (!this.isDrawing) {
+      // Start new stroke
+      this.isDrawing = true;
+      this.drawingCanvas.startStroke(position, this.currentColor, this.toolWidth(), depth);
+    } else {
+      // Continue stroke
+      this.drawingCanvas.addPoint(position, depth);
+    }
+
+    // Render immediately for lowest latency (don't wait for animation frame)
+    this.drawingCanvas.render();
+  }
+
+  private toolWidth(): number {
+    return SHORTCUTS.TOOLS.find(tool => tool.id === this.tool)?.width ?? STROKE.WIDTH;
+  }
+
+  private handleGrab(landmarks: HandLandmarks): void {
+    const pinchCenter = this.gestureDetectors[this.handednessOf(landmarks)].getPinchCenter(landmarks);
+
+    if (this.isDrawing) {
+      // Pause drawing but keep stroke
+      this.isDrawing = false;
+      this.drawingCanvas.pauseStroke();
+      this.commitStrokeEdit();
+    }
+
+    // Check if grabbing an object
+    if (!this.grabbedObject) {
+      const hitObject = this.objectManager.getObjectAtPosition(pinchCenter.x, pinchCenter.y);
+      if (hitObject) {
+        this.grabObject(hitObject, pinchCenter);
+      }
+    } else {
+      this.moveGrabbedObject(pinchCenter);
+    }
+  }
+
+  // Move and rotate the grabbed object based on hand or pointer movement
+  private moveGrabbedObject(position: Point2D): void {
+    if (!this.grabbedObject) return;
+
+    if (this.lastPinchPosition) {
+      const deltaX = position.x - this.lastPinchPosition.x;
+      const deltaY = position.y - this.lastPinchPosition.y;
+
+      // Move the object
+      this.objectManager.moveGrabbedObject(this.grabbedObject, position.x, position.y);
+
+      // Rotate based on movement
+      this.objectManager.rotateObject(this.grabbedObject, deltaX * 0.02, deltaY * 0.02);
+    }
+    this.lastPinchPosition = position;
+  }
+
+  private grabObject(obj: BalloonObject, position: Point2D): void {
+    this.grabbedObject = obj;
+    this.grabbedFrom = this.objectManager.getTransform(obj);
+    this.objectManager.grabObject(obj);
+    this.lastPinchPosition = position;
+  }
+
+  private releaseGrabbedObject(): void {
+    if (this.grabbedObject) {
+      this.objectManager.releaseObject(this.grabbedObject);
+      if (this.grabbedFrom) {
+        this.recordTransform('Move', this.grabbedObject, this.grabbedFrom);
+      }
+      this.grabbedObject = null;
+      this.grabbedFrom = null;
+      this.lastPinchPosition = null;
+    }
+  }
+
+  private handleDelete(position: { x: number; y: number }): void {
+    // Check if swiping on an object
+    const hitObject = this.objectManager.getObjectAtPosition(position.x, position.y);
+    if (hitObject) {
+      const snapshot = this.objectManager.snapshotObject(hitObject);
+      this.objectManager.removeObject(hitObject);
+      this.history.record({
+        label: 'Delete',
+        undo: () => this.objectManager.restoreObject(snapshot),
+        redo: () => this.removeObjectById(snapshot.id)
+      });
+    }
+  }
+
+  private undo(): void {
+    // Undoing while a clean shape is offered reopens the stroke, as if it had never been closed
+    if (this.cancelSnap()) {
+      this.showStatus('Undo close', 1000);
+      return;
+    }
+    if (this.waitForInflation()) return;
+    this.settleEdits();
+    const command = this.history.undo();
+    this.showStatus(command ? `Undo ${command.label.toLowerCase()}` : 'Nothing to undo', 1000);
+  }
+
+  private redo(): void {
+    if (this.waitForInflation()) return;
+    this.settleEdits();
+    const command = this.history.redo();
+    this.showStatus(command ? `Redo ${command.label.toLowerCase()}` : 'Nothing to redo', 1000);
+  }
+
+  // An inflation is recorded once its balloon exists; undoing before that would undo the edit
+  // under it instead, so undo and redo wait until it lands
+  private waitForInflation(): boolean {
+    if (this.pendingInflations === 0) return false;
+    this.showStatus('Wait for the shape to inflate', 1000);
+    return true;
+  }
+
+  // Finishes edits still in progress, so undo starts from them rather than pulling state from
+  // under them
+  private settleEdits(): void {
+    this.releaseGrabbedObject();
+    if (this.isDrawing) {
+      this.isDrawing = false;
+      this.drawingCanvas.pauseStroke();
+    }
+    this.drawingCanvas.clearLivePosition();
+    this.commitStrokeEdit();
+  }
+
+  // Drawing is recorded per pen-down: from the first point until the pen lifts
+  private beginStrokeEdit(): void {
+    if (this.strokeEdit) return;
+    const stroke = this.drawingCanvas.getCurrentStroke();
+    this.strokeEdit = { stroke, length: stroke?.points.length ?? 0, before: this.drawingCanvas.snapshotStroke() };
+  }
+
+  private commitStrokeEdit(): void {
+    const edit = this.strokeEdit;
+    if (!edit) return;
+    this.strokeEdit = null;
+
+    const stroke = this.drawingCanvas.getCurrentStroke();
+    if (stroke === edit.stroke && (stroke?.points.length ?? 0) === edit.length) return;
+
+    const after = this.drawingCanvas.snapshotStroke();
+    this.history.record({
+      label: 'Draw',
+      undo: () => this.drawingCanvas.restoreStroke(edit.before),
+      redo: () => this.drawingCanvas.restoreStroke(after)
+    });
+  }
+
+  private recordTransform(label: string, obj: BalloonObject, before: ObjectTransform): void {
+    const after = this.objectManager.getTransform(obj);
+    const moved = after.position.distanceTo(before.position) > 1e-3 ||
+      !after.rotation.equals(before.rotation);
+    if (!moved) return;
+
+    const id = obj.id;
+    this.history.record({
+      label,
+      undo: () => this.withObject(id, o => this.objectManager.setTransform(o, before)),
+      redo: () => this.withObject(id, o => this.objectManager.setTransform(o, after))
+    });
+  }
+
+  // Commands refer to balloons by id, since undoing a removal brings back a new object; one
+  // that's gone for another reason (e.g. a peer cleared the scene) is skipped
+  private withObject(id: string, edit: (obj: BalloonObject) => void): void {
+    const obj = this.objectManager.getObjectById(id);
+    if (obj) {
+      edit(obj);
+    }
+  }
+
+  // Peers only hear about new balloons and clears, not their undo, so while connected those edits
+  // can't be taken back without the scenes drifting apart; history restarts after them instead
+  private recordShared(command: Command): void {
+    if (this.multiplayer.isConnected()) {
+      this.history.clear();
+    } else {
+      this.history.record(command);
+    }
+  }
+
+  private removeObjectById(id: string): void {
+    this.withObject(id, obj => this.objectManager.removeObject(obj, true));
+  }
+
+  private closeAndInflate(): void {
+    // Closing again takes the clean shape on offer
+    if (this.snapOffer) {
+      this.resolveSnap(true);
+      return;
+    }
+
+    // Closing with nothing drawn inflates the outlines waiting to be combined
+    if (!this.drawingCanvas.getCurrentStroke() && this.drawingCanvas.getContours().length > 0) {
+      this.inflateContours();
+      return;
+    }
+    if (this.multiContour) {
+      this.addContour();
+      return;
+    }
+
+    this.commitStrokeEdit();
+    const before = this.drawingCanvas.snapshotDrawing();
+    const stroke = this.drawingCanvas.closeStroke();
+    this.drawingCanvas.clearLivePosition();
+    const after = this.drawingCanvas.snapshotDrawing();
 
     if (!stroke) {
       this.showStatus('Draw a larger shape', 1000);
@@ -736,6 +2174,69 @@ class AirCanvas {
 
     this.isDrawing = false;
 
+    const match = this.snapMode === 'off' ? null : recognizeShape(stroke.points);
+    if (match && this.snapMode === 'ask') {
+      this.offerSnap(stroke, match, before, after);
+      return;
+    }
+    if (match) {
+      this.drawingCanvas.removeCompletedStroke(stroke);
+    }
+    this.inflateStroke(match ? snapStroke(stroke, match) : stroke, before, after);
+  }
+
+  private offerSnap(original: Stroke, match: ShapeMatch, before: DrawingSnapshot, after: DrawingSnapshot): void {
+    const clean = snapStroke(original, match);
+    this.snapOffer = { original, clean, before, after };
+    this.drawingCanvas.setSnapPreview(clean);
+
+    // Gestures are only offered once keeping the drawn shape has one; the keys always work
+    const reject = this.gestureNameFor('keep-shape');
+    const choices = reject
+      ? `${this.gestureNameFor('inflate') ?? 'Enter'}: use it · ${reject}: keep yours`
+      : 'Enter: use it · Esc: keep yours';
+    this.showStatus(`Looks like a ${match.shape}. ${choices}`);
+  }
+
+  // Inflates the clean shape or the one drawn, whichever the user chose
+  private resolveSnap(accept: boolean): void {
+    const offer = this.snapOffer;
+    if (!offer) return;
+    this.snapOffer = null;
+    this.drawingCanvas.setSnapPreview(null);
+    this.hideStatus();
+
+    this.drawingCanvas.removeCompletedStroke(offer.original);
+    this.inflateStroke(accept ? offer.clean : offer.original, offer.before, offer.after);
+  }
+
+  // Withdraws the offer and puts the drawing back as it was before closing
+  private cancelSnap(): boolean {
+    const offer = this.snapOffer;
+    if (!offer) return false;
+    this.snapOffer = null;
+    this.drawingCanvas.setSnapPreview(null);
+    this.hideStatus();
+
+    this.drawingCanvas.removeCompletedStroke(offer.original);
+    this.drawingCanvas.restoreDrawing(offer.before);
+    return true;
+  }
+
+  // Name of a gesture bound to the action, for prompts
+  private gestureNameFor(actionId: string): string | null {
+    const labels = this.gestureBindings.getGestureLabels();
+    for (const [gesture, id] of Object.entries(this.gestureBindings.getBindings()) as [GestureType, string][]) {
+      if (id === actionId && labels[gesture]) {
+        return labels[gesture]!;
+      }
+    }
+    return null;
+  }
+
+  private inflateStroke(stroke: Stroke, before: DrawingSnapshot, after: DrawingSnapshot): void {
+    this.pendingInflations++;
+
     // Animate the closing
     const startTime = performance.now();
     const animate = () => {
@@ -748,19 +2249,67 @@ class AirCanvas {
         requestAnimationFrame(animate);
       } else {
         // Create 3D balloon
-        this.createBalloon(stroke);
+        this.createBalloon(stroke, before, after);
       }
     };
     animate();
   }
 
-  private async createBalloon(stroke: Stroke): Promise<void> {
+  // Closes the stroke in progress as one outline of a shape, to be inflated with the others
+  private addContour(): void {
+    this.commitStrokeEdit();
+    const before = this.drawingCanvas.snapshotDrawing();
+    const contour = this.drawingCanvas.closeContour();
+    this.drawingCanvas.clearLivePosition();
+
+    if (!contour) {
+      this.showStatus('Draw a larger shape', 1000);
+      return;
+    }
+
+    this.isDrawing = false;
+    const after = this.drawingCanvas.snapshotDrawing();
+    this.history.record({
+      label: 'Add outline',
+      undo: () => this.drawingCanvas.restoreDrawing(before),
+      redo: () => this.drawingCanvas.restoreDrawing(after)
+    });
+    this.showStatus('Outline added. Close with nothing drawn to inflate', 2000);
+  }
+
+  // Outlines inside another become its holes; every outermost outline inflates on its own
+  private async inflateContours(): Promise<void> {
+    this.commitStrokeEdit();
+    const before = this.drawingCanvas.snapshotDrawing();
+    const shapes = groupContours(this.drawingCanvas.takeContours());
+    const after = this.drawingCanvas.snapshotDrawing();
+    this.isDrawing = false;
+
+    this.pendingInflations++;
+    try {
+      const balloons = await Promise.all(shapes.map(shape => this.objectManager.createFromStroke(shape)));
+      this.recordShared(this.inflationCommand(balloons, before, after));
+
+      // Broadcast to peers
+      if (this.multiplayer.isConnected()) {
+        shapes.forEach(shape => this.multiplayer.broadcast({ type: 'balloon_created', strokeData: shape }));
+      }
+    } catch (error) {
+      console.error('Failed to create balloon:', error);
+      this.showStatus('Failed to create shape', 2000);
+    } finally {
+      this.pendingInflations--;
+    }
+  }
+
+  private async createBalloon(stroke: Stroke, before: DrawingSnapshot, after: DrawingSnapshot): Promise<void> {
     // Clear the stroke from drawing canvas FIRST before creating 3D object
     this.drawingCanvas.removeCompletedStroke(stroke);
     this.drawingCanvas.clear();
 
     try {
-      await this.objectManager.createFromStroke(stroke);
+      const balloon = await this.objectManager.createFromStroke(stroke);
+      this.recordShared(this.inflationCommand([balloon], before, after));
 
       // Broadcast to peers
       if (this.multiplayer.isConnected()) {
@@ -772,13 +2321,67 @@ class AirCanvas {
     } catch (error) {
       console.error('Failed to create balloon:', error);
       this.showStatus('Failed to create shape', 2000);
+    } finally {
+      this.pendingInflations--;
+    }
+  }
+
+  // Undoing an inflation takes the balloons away and gives the outlines back to keep editing
+  private inflationCommand(balloons: BalloonObject[], before: DrawingSnapshot, after: DrawingSnapshot): Command {
+    let snapshots = balloons.map(balloon => this.objectManager.snapshotObject(balloon));
+    return {
+      label: 'Inflate',
+      undo: () => {
+        snapshots = snapshots.map(snapshot => {
+          let latest = snapshot;
+          this.withObject(snapshot.id, obj => {
+            latest = this.objectManager.snapshotObject(obj);
+            this.objectManager.removeObject(obj, true);
+          });
+          return latest;
+        });
+        this.drawingCanvas.restoreDrawing(before);
+      },
+      redo: () => {
+        this.drawingCanvas.restoreDrawing(after);
+        snapshots.forEach(snapshot => this.objectManager.restoreObject(snapshot));
+      }
+    };
+  }
+
+  private async clearAllAndBroadcast(): Promise<void> {
+    this.cancelSnap();
+    this.settleEdits();
+    const snapshots = this.objectManager.getObjects().map(obj => this.objectManager.snapshotObject(obj));
+    const drawing = this.drawingCanvas.snapshotDrawing();
+
+    const cleared = this.clearAll();
+    this.recordShared({
+      label: 'Clear all',
+      undo: () => {
+        snapshots.forEach(snapshot => this.objectManager.restoreObject(snapshot));
+        this.drawingCanvas.restoreDrawing(drawing);
+      },
+      redo: () => this.clearAll()
+    });
+
+    // Peers clear once the balloons are gone here
+    await cleared;
+    if (this.multiplayer.isConnected()) {
+      this.multiplayer.broadcast({ type: 'clear_all' });
     }
   }
 
+  // Resolves once every balloon has popped; a failed animation is logged rather than thrown
   private async clearAll(): Promise<void> {
+    this.snapOffer = null;
     this.showStatus('Clearing all...');
     this.drawingCanvas.clearAll();
-    await this.objectManager.clearAll();
+    try {
+      await this.objectManager.clearAll();
+    } catch (error) {
+      console.error('Failed to clear all:', error);
+    }
     this.hideStatus();
   }
 
@@ -804,13 +2407,19 @@ class AirCanvas {
       previous: 'none' as const,
       duration: 0,
       velocity: { x: 0, y: 0 },
-      confidence: 0
+      confidence: 0,
+      depth: null,
+      push: null,
+      fingers: 0,
+      fingersDuration: 0
     };
     this.handVisualizer.render(
+      this.currentHands,
       this.currentLandmarks,
       gestureState,
-      this.currentColor,
-      deltaTime
+      this.tool === 'eraser' ? '#FFFFFF' : this.currentColor,
+      deltaTime,
+      this.shortcutMenu
     );
   }
 
@@ -0,0 +1,111 @@
+// Resolves, verifies and serves the MediaPipe Hands model/WASM files
+
+export const DEFAULT_ASSET_BASE =
+  import.meta.env.VITE_MEDIAPIPE_ASSET_BASE ?? `${import.meta.env.BASE_URL}mediapipe/hands/`;
+
+// Thrown when the model or WASM can't be fetched or fails verification
+export class AssetLoadError extends Error {
+  readonly file?: string;
+
+  constructor(message: string, file?: string) {
+    super(message);
+    this.name = 'AssetLoadError';
+    this.file = file;
+  }
+}
+
+// Copied from hands.js, so we prepare the same WASM build MediaPipe will ask for
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 4, 1, 96, 0, 0, 3, 2, 1, 0, 10, 9, 1, 7, 0, 65, 0, 253, 15, 26, 11
+]);
+
+function supportsSimd(): boolean {
+  try {
+    return WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    return false;
+  }
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export class MediaPipeAssets {
+  private baseUrl: string;
+  private verifiedUrls = new Map<string, string>();
+
+  constructor(baseUrl: string = DEFAULT_ASSET_BASE) {
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Used as MediaPipe's locateFile: verified copies are served from memory
+  locateFile(file: string): string {
+    return this.verifiedUrls.get(file) ?? `${this.baseUrl}${file}`;
+  }
+
+  // Files MediaPipe will request for this browser and model
+  private requiredFiles(modelComplexity: 0 | 1): string[] {
+    const wasm = supportsSimd() ? 'hands_solution_simd_wasm_bin' : 'hands_solution_wasm_bin';
+    return [
+      'hands.js',
+      'hands.binarypb',
+      'hands_solution_packed_assets_loader.js',
+      'hands_solution_packed_assets.data',
+      `${wasm}.js`,
+      `${wasm}.wasm`,
+      modelComplexity === 1 ? 'hand_landmark_full.tflite' : 'hand_landmark_lite.tflite'
+    ];
+  }
+
+  // Resolved URLs for every prepared file, for contexts that can't call locateFile (the worker)
+  getFileUrls(): Record<string, string> {
+    return Object.fromEntries(this.verifiedUrls);
+  }
+
+  // Downloads and checks the files up front so a bad network fails here, with a clear error.
+  // Checksums are baked into the bundle at build time, so a tampered asset host can't vouch for itself.
+  async prepare(modelComplexity: 0 | 1): Promise<void> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new AssetLoadError('MediaPipe assets can only be verified in a secure context (HTTPS or localhost)');
+    }
+
+    await Promise.all(this.requiredFiles(modelComplexity).map(async (file) => {
+      if (this.verifiedUrls.has(file)) return;
+
+      let data: ArrayBuffer;
+      let contentType: string;
+      try {
+        const response = await fetch(`${this.baseUrl}${file}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        data = await response.arrayBuffer();
+        contentType = response.headers.get('Content-Type') ?? 'application/octet-stream';
+      } catch (error) {
+        throw new AssetLoadError(`Could not download ${file} (${(error as Error).message})`, file);
+      }
+
+      const expected = __MEDIAPIPE_CHECKSUMS__[file];
+      if (!expected) {
+        throw new AssetLoadError(`${file} has no build-time checksum`, file);
+      }
+      if (data.byteLength !== expected.size || await sha256Hex(data) !== expected.sha256) {
+        throw new AssetLoadError(`${file} failed its integrity check`, file);
+      }
+
+      const url = URL.createObjectURL(new Blob([data], { type: contentType }));
+      this.verifiedUrls.set(file, url);
+    }));
+  }
+
+  release(): void {
+    this.verifiedUrls.forEach(url => URL.revokeObjectURL(url));
+    this.verifiedUrls.clear();
+  }
+}
@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import gsap from 'gsap';
-import { BalloonObject, Stroke } from './types';
+import { BalloonObject, BalloonSnapshot, ObjectTransform, Stroke } from './types';
 import { Scene3D } from './scene3D';
 import { BalloonInflator } from './balloonInflator';
 import { SCENE, TIMING } from './constants';
@@ -21,13 +21,82 @@ export class ObjectManager {
   }
 
   async createFromStroke(stroke: Stroke): Promise<BalloonObject> {
-    const mesh = this.inflator.createBalloonMesh(stroke);
+    const balloonObject = this.buildObject(stroke, `balloon_${this.idCounter++}`);
 
     // Start invisible for inflation animation
-    mesh.scale.set(0.001, 0.001, 0.001);
+    balloonObject.mesh.scale.set(0.001, 0.001, 0.001);
+
+    this.scene.add(balloonObject.mesh);
+    this.objects.push(balloonObject);
+
+    // Animate inflation
+    await this.animateInflation(balloonObject);
+
+    // Settle into position
+    this.findBalancedPosition(balloonObject);
+
+    return balloonObject;
+  }
+
+  // Brings back a removed balloon where it was, under the same id
+  restoreObject(snapshot: BalloonSnapshot): BalloonObject {
+    const obj = this.buildObject(snapshot.stroke, snapshot.id);
+    obj.mesh.position.copy(snapshot.transform.position);
+    obj.mesh.rotation.copy(snapshot.transform.rotation);
+    obj.position.copy(snapshot.transform.position);
+    obj.targetPosition.copy(snapshot.transform.position);
+    obj.mesh.scale.set(0.001, 0.001, 0.001);
+
+    this.scene.add(obj.mesh);
+    this.objects.push(obj);
+
+    gsap.to(obj.mesh.scale, {
+      x: obj.scale,
+      y: obj.scale,
+      z: obj.scale,
+      duration: TIMING.OBJECT_POP * 2,
+      ease: 'back.out(2)'
+    });
+
+    return obj;
+  }
+
+  snapshotObject(obj: BalloonObject): BalloonSnapshot {
+    return { id: obj.id, stroke: obj.originalStroke, transform: this.getTransform(obj) };
+  }
+
+  getTransform(obj: BalloonObject): ObjectTransform {
+    return { position: obj.targetPosition.clone(), rotation: obj.mesh.rotation.clone() };
+  }
 
-    const balloonObject: BalloonObject = {
-      id: `balloon_${this.idCounter++}`,
+  // Eases an object back to a recorded position and orientation
+  setTransform(obj: BalloonObject, transform: ObjectTransform): void {
+    gsap.killTweensOf(obj.mesh.position);
+    gsap.killTweensOf(obj.mesh.rotation);
+    obj.position.copy(transform.position);
+    obj.targetPosition.copy(transform.position);
+
+    gsap.to(obj.mesh.position, {
+      x: transform.position.x,
+      y: transform.position.y,
+      z: transform.position.z,
+      duration: TIMING.OBJECT_SETTLE,
+      ease: 'power2.out'
+    });
+    gsap.to(obj.mesh.rotation, {
+      x: transform.rotation.x,
+      y: transform.rotation.y,
+      z: transform.rotation.z,
+      duration: TIMING.OBJECT_SETTLE,
+      ease: 'power2.out'
+    });
+  }
+
+  private buildObject(stroke: Stroke, id: string): BalloonObject {
+    const mesh = this.inflator.createBalloonMesh(stroke);
+
+    return {
+      id,
       mesh,
       color: stroke.color,
       originalStroke: stroke,
@@ -51,17 +120,6 @@ export class ObjectManager {
       isGrabbed: false,
       squishAmount: 0
     };
-
-    this.scene.add(mesh);
-    this.objects.push(balloonObject);
-
-    // Animate inflation
-    await this.animateInflation(balloonObject);
-
-    // Settle into position
-    this.findBalancedPosition(balloonObject);
-
-    return balloonObject;
   }
 
   private async animateInflation(obj: BalloonObject): Promise<void> {
@@ -291,15 +349,14 @@ export class ObjectManager {
   async clearAll(): Promise<void> {
     const promises: Promise<void>[] = [];
 
-    // Staggered removal
-    for (let i = 0; i < this.objects.length; i++) {
+    // Staggered removal (of a copy, since removeObject takes each one out of the list)
+    const objects = [...this.objects];
+    for (let i = 0; i < objects.length; i++) {
       const delay = i * 0.1;
       promises.push(
         new Promise((resolve) => {
           gsap.delayedCall(delay, async () => {
-            if (this.objects[i]) {
-              await this.removeObject(this.objects[i], true);
-            }
+            await this.removeObject(objects[i], true);
             resolve();
           });
         })
@@ -307,7 +364,6 @@ export class ObjectManager {
     }
 
     await Promise.all(promises);
-    this.objects = [];
   }
 
   getObjectAtPosition(screenX: number, screenY: number): BalloonObject | null {
@@ -322,6 +378,10 @@ export class ObjectManager {
     return null;
   }
 
+  getObjectById(id: string): BalloonObject | null {
+    return this.objects.find(o => o.id === id) ?? null;
+  }
+
   getObjects(): BalloonObject[] {
     return this.objects;
   }
@@ -0,0 +1,168 @@
+import { Point2D, SmoothingSettings } from './types';
+
+// One stage of the smoothing chain. time is in ms; filters that don't depend on the frame rate
+// ignore it.
+export interface PointFilter {
+  filter(point: Point2D, time: number): Point2D;
+  reset(): void;
+}
+
+// Ignores movements smaller than threshold pixels (what DrawingCanvas used to call the jitter filter)
+export class DeadZoneFilter implements PointFilter {
+  private threshold: number;
+  private last: Point2D | null = null;
+
+  constructor(threshold: number) {
+    this.threshold = threshold;
+  }
+
+  filter(point: Point2D): Point2D {
+    if (this.last && Math.hypot(point.x - this.last.x, point.y - this.last.y) < this.threshold) {
+      return this.last;
+    }
+    this.last = point;
+    return point;
+  }
+
+  reset(): void {
+    this.last = null;
+  }
+}
+
+// Average of the last `size` points: steady, but lags a fast stroke by half the window
+export class MovingAverageFilter implements PointFilter {
+  private size: number;
+  private points: Point2D[] = [];
+
+  constructor(size: number) {
+    this.size = size;
+  }
+
+  filter(point: Point2D): Point2D {
+    this.points.push(point);
+    if (this.points.length > this.size) {
+      this.points.shift();
+    }
+
+    let sumX = 0, sumY = 0;
+    for (const p of this.points) {
+      sumX += p.x;
+      sumY += p.y;
+    }
+    return { x: sumX / this.points.length, y: sumY / this.points.length };
+  }
+
+  reset(): void {
+    this.points = [];
+  }
+}
+
+// Each output moves alpha of the way towards the new point
+export class ExponentialFilter implements PointFilter {
+  private alpha: number;
+  private value: Point2D | null = null;
+
+  constructor(alpha: number) {
+    this.alpha = alpha;
+  }
+
+  filter(point: Point2D): Point2D {
+    this.value = this.value
+      ? { x: this.value.x + (point.x - this.value.x) * this.alpha, y: this.value.y + (point.y - this.value.y) * this.alpha }
+      : point;
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+  }
+}
+
+// One Euro filter (Casiez et al., CHI 2012): a low-pass filter whose cutoff rises with speed,
+// so slow movements are smoothed hard while fast strokes follow with little lag
+export class OneEuroFilter implements PointFilter {
+  private minCutoff: number;         // Hz at rest
+  private beta: number;              // cutoff increase per px/s of speed
+  private derivativeCutoff: number;  // Hz, for the speed estimate itself
+  private value: Point2D | null = null;
+  private speed: Point2D = { x: 0, y: 0 };
+  private lastTime = 0;
+
+  constructor(minCutoff: number, beta: number, derivativeCutoff = 1) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.derivativeCutoff = derivativeCutoff;
+  }
+
+  filter(point: Point2D, time: number): Point2D {
+    const dt = (time - this.lastTime) / 1000;
+    if (!this.value) {
+      this.value = point;
+      this.lastTime = time;
+      return point;
+    }
+    // A second point within the same instant has no speed to measure; keep the last output
+    if (dt <= 0) return this.value;
+    this.lastTime = time;
+
+    const rawSpeed = { x: (point.x - this.value.x) / dt, y: (point.y - this.value.y) / dt };
+    const speedAlpha = this.alpha(this.derivativeCutoff, dt);
+    this.speed = {
+      x: this.speed.x + (rawSpeed.x - this.speed.x) * speedAlpha,
+      y: this.speed.y + (rawSpeed.y - this.speed.y) * speedAlpha
+    };
+
+    const cutoff = this.minCutoff + this.beta * Math.hypot(this.speed.x, this.speed.y);
+    const alpha = this.alpha(cutoff, dt);
+    this.value = { x: this.value.x + (point.x - this.value.x) * alpha, y: this.value.y + (point.y - this.value.y) * alpha };
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.speed = { x: 0, y: 0 };
+  }
+
+  private alpha(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+}
+
+// Runs a point through each filter in turn
+export class FilterChain implements PointFilter {
+  private filters: PointFilter[];
+
+  constructor(filters: PointFilter[]) {
+    this.filters = filters;
+  }
+
+  filter(point: Point2D, time: number): Point2D {
+    return this.filters.reduce((p, f) => f.filter(p, time), point);
+  }
+
+  reset(): void {
+    this.filters.forEach(f => f.reset());
+  }
+}
+
+export function createFilterChain(settings: SmoothingSettings): FilterChain {
+  const filters: PointFilter[] = [];
+  if (settings.deadZone > 0) {
+    filters.push(new DeadZoneFilter(settings.deadZone));
+  }
+
+  switch (settings.filter) {
+    case 'one-euro':
+      filters.push(new OneEuroFilter(settings.minCutoff, settings.beta));
+      break;
+    case 'exponential':
+      filters.push(new ExponentialFilter(settings.alpha));
+      break;
+    case 'moving-average':
+      filters.push(new MovingAverageFilter(settings.window));
+      break;
+  }
+
+  return new FilterChain(filters);
+}
@@ -0,0 +1,167 @@
+import { Point2D } from './types';
+import { POINTER } from './constants';
+
+// 'draw' makes mouse and touch draw like a pen; in 'orbit' they move the camera
+export type PointerMode = 'draw' | 'orbit';
+
+// What the pointer layer asks the app to do; mirrors the hand gesture actions
+export interface PointerInputHandlers {
+  drawStart(point: Point2D, pressure: number): void;
+  drawMove(point: Point2D, pressure: number): void;
+  drawEnd(): void;
+  closeAndInflate(): void;
+  grab(point: Point2D): boolean;   // true if an object was under the pointer
+  drag(point: Point2D): void;
+  release(): void;
+  poke(point: Point2D): void;
+  orbitStart(point: Point2D): void;
+  orbitMove(deltaX: number, deltaY: number): void;
+  orbitEnd(): void;
+}
+
+// 'pending' is a drawing pointer that hasn't moved yet; it may still turn out to be a tap
+type PointerAction = 'pending' | 'draw' | 'grab' | 'orbit';
+
+// Turns pointer events (mouse, pen, touch) into drawing, grabbing and camera actions.
+// Pens always draw; mouse and touch draw only in 'draw' mode.
+export class PointerInput {
+  private element: HTMLElement;
+  private handlers: PointerInputHandlers;
+  private mode: PointerMode = 'orbit';
+  private activePointer: number | null = null;
+  private action: PointerAction | null = null;
+  private downPosition: Point2D = { x: 0, y: 0 };
+  private lastPosition: Point2D = { x: 0, y: 0 };
+  private downPressure = 0.5;
+  private moved = false;
+  private lastTapTime = 0;
+  private lastTapPosition: Point2D = { x: 0, y: 0 };
+
+  constructor(element: HTMLElement, handlers: PointerInputHandlers) {
+    this.element = element;
+    this.handlers = handlers;
+
+    element.addEventListener('pointerdown', (e) => this.onPointerDown(e));
+    element.addEventListener('pointermove', (e) => this.onPointerMove(e));
+    element.addEventListener('pointerup', (e) => this.onPointerUp(e));
+    element.addEventListener('pointercancel', (e) => this.onPointerUp(e));
+  }
+
+  getMode(): PointerMode {
+    return this.mode;
+  }
+
+  setMode(mode: PointerMode): void {
+    this.mode = mode;
+  }
+
+  // Mice report a constant 0.5 while pressed; pens report real pressure
+  private getPressure(e: PointerEvent): number {
+    if (e.pointerType !== 'pen') return 0.5;
+    return e.pressure > 0 ? e.pressure : 0.5;
+  }
+
+  private onPointerDown(e: PointerEvent): void {
+    if (this.activePointer !== null || (e.pointerType === 'mouse' && e.button !== 0)) return;
+
+    const point = { x: e.clientX, y: e.clientY };
+    const drawing = this.mode === 'draw' || e.pointerType === 'pen';
+
+    this.activePointer = e.pointerId;
+    this.element.setPointerCapture(e.pointerId);
+    this.downPosition = point;
+    this.downPressure = this.getPressure(e);
+    this.lastPosition = point;
+    this.moved = false;
+
+    if (drawing) {
+      if (this.isDoubleTap(point)) {
+        this.action = null;
+        this.lastTapTime = 0;
+        this.handlers.closeAndInflate();
+      } else if (this.handlers.grab(point)) {
+        this.action = 'grab';
+      } else {
+        // Strokes start on the first real movement so taps don't replace the current stroke
+        this.action = 'pending';
+      }
+    } else {
+      this.action = 'orbit';
+      this.handlers.orbitStart(point);
+    }
+  }
+
+  private isDoubleTap(point: Point2D): boolean {
+    const dx = point.x - this.lastTapPosition.x;
+    const dy = point.y - this.lastTapPosition.y;
+    return performance.now() - this.lastTapTime < POINTER.DOUBLE_TAP_TIME &&
+      Math.sqrt(dx * dx + dy * dy) < POINTER.DOUBLE_TAP_DISTANCE;
+  }
+
+  private onPointerMove(e: PointerEvent): void {
+    if (e.pointerId !== this.activePointer || !this.action) return;
+
+    const point = { x: e.clientX, y: e.clientY };
+    const dx = point.x - this.downPosition.x;
+    const dy = point.y - this.downPosition.y;
+    if (Math.sqrt(dx * dx + dy * dy) > POINTER.TAP_MOVE_TOLERANCE) {
+      this.moved = true;
+    }
+
+    if (this.action === 'pending') {
+      if (!this.moved) return;
+      this.action = 'draw';
+      this.handlers.drawStart(this.downPosition, this.downPressure);
+    }
+
+    switch (this.action) {
+      case 'draw':
+        this.handlers.drawMove(point, this.getPressure(e));
+        break;
+
+      case 'grab':
+        this.handlers.drag(point);
+        break;
+
+      case 'orbit':
+        this.handlers.orbitMove(point.x - this.lastPosition.x, point.y - this.lastPosition.y);
+        break;
+    }
+
+    this.lastPosition = point;
+  }
+
+  private onPointerUp(e: PointerEvent): void {
+    if (e.pointerId !== this.activePointer) return;
+
+    this.activePointer = null;
+    if (this.element.hasPointerCapture(e.pointerId)) {
+      this.element.releasePointerCapture(e.pointerId);
+    }
+
+    switch (this.action) {
+      case 'pending':
+        this.lastTapTime = performance.now();
+        this.lastTapPosition = this.downPosition;
+        break;
+
+      case 'draw':
+        this.handlers.drawEnd();
+        break;
+
+      case 'grab':
+        this.handlers.release();
+        // Tapping an object without dragging it pokes it
+        if (!this.moved) {
+          this.handlers.poke(this.downPosition);
+        }
+        break;
+
+      case 'orbit':
+        this.handlers.orbitEnd();
+        break;
+    }
+
+    this.action = null;
+  }
+}
@@ -0,0 +1,138 @@
+import { LandmarkFrame, LandmarkRecording, RecordedFrame } from './types';
+import { RECORDING } from './constants';
+
+// Bump when the file layout changes; replay rejects versions it doesn't know
+export const RECORDING_VERSION = 1;
+
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private recording = false;
+  private limitReached = false;
+  private startTimestamp: number | null = null;
+  private canvasWidth = 0;
+  private canvasHeight = 0;
+  private recordedAt = '';
+  private color = '#FFB3BA';
+
+  start(canvasWidth: number, canvasHeight: number): void {
+    this.frames = [];
+    this.recording = true;
+    this.limitReached = false;
+    this.startTimestamp = null;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    this.recordedAt = new Date().toISOString();
+  }
+
+  stop(): LandmarkRecording {
+    this.recording = false;
+
+    return {
+      version: RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      canvasWidth: this.canvasWidth,
+      canvasHeight: this.canvasHeight,
+      frames: this.frames
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  // True once capture stopped at RECORDING.MAX_DURATION; the recording still holds what came before
+  hasReachedLimit(): boolean {
+    return this.limitReached;
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  setColor(color: string): void {
+    this.color = color;
+  }
+
+  capture(frame: LandmarkFrame): void {
+    if (!this.recording || this.limitReached) return;
+
+    // Store timestamps relative to the first captured frame
+    if (this.startTimestamp === null) {
+      this.startTimestamp = frame.timestamp;
+    }
+
+    const timestamp = frame.timestamp - this.startTimestamp;
+    if (timestamp > RECORDING.MAX_DURATION) {
+      this.limitReached = true;
+      return;
+    }
+
+    this.frames.push({
+      timestamp,
+      multiHandLandmarks: frame.multiHandLandmarks.map(hand =>
+        hand.map(lm => ({ x: lm.x, y: lm.y, z: lm.z }))
+      ),
+      multiHandWorldLandmarks: frame.multiHandWorldLandmarks?.map(hand =>
+        hand.map(lm => ({ x: lm.x, y: lm.y, z: lm.z }))
+      ),
+      multiHandedness: frame.multiHandedness?.slice(),
+      imageWidth: frame.imageWidth,
+      imageHeight: frame.imageHeight,
+      color: this.color
+    });
+  }
+}
+
+export function serializeRecording(recording: LandmarkRecording): string {
+  return JSON.stringify(recording);
+}
+
+export function parseRecording(json: string | object): LandmarkRecording {
+  const data = (typeof json === 'string' ? JSON.parse(json) : json) as Partial<LandmarkRecording>;
+
+  if (typeof data.version !== 'number') {
+    throw new Error('Not a hand-tracking recording');
+  }
+  if (data.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${data.version}`);
+  }
+  if (!Array.isArray(data.frames)) {
+    throw new Error('Recording has no frames');
+  }
+
+  data.frames.forEach((frame: Partial<Record<keyof RecordedFrame, unknown>> | null, index) => {
+    if (typeof frame?.timestamp !== 'number' || !Number.isFinite(frame.timestamp)) {
+      throw new Error(`Recording frame ${index} has no timestamp`);
+    }
+    if (!isHandList(frame.multiHandLandmarks)) {
+      throw new Error(`Recording frame ${index} has invalid landmarks`);
+    }
+    if (frame.multiHandWorldLandmarks !== undefined && !isHandList(frame.multiHandWorldLandmarks)) {
+      throw new Error(`Recording frame ${index} has invalid world landmarks`);
+    }
+  });
+
+  return data as LandmarkRecording;
+}
+
+// A list of hands, each a list of points with numeric x, y and z
+function isHandList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(hand =>
+    Array.isArray(hand) && hand.every((point: Partial<Record<'x' | 'y' | 'z', unknown>> | null) =>
+      [point?.x, point?.y, point?.z].every(n => typeof n === 'number' && Number.isFinite(n))
+    )
+  );
+}
+
+export function downloadRecording(recording: LandmarkRecording): void {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `air-canvas-session-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+
+  // The browser may still be reading the file after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), RECORDING.REVOKE_DELAY);
+}
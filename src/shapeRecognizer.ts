@@ -0,0 +1,343 @@
+import { Point2D, RecognizedShape, Stroke } from './types';
+import { SHAPES } from './constants';
+import { polygonArea } from './contours';
+
+export interface ShapeMatch {
+  shape: RecognizedShape;
+  error: number;        // mean gap between stroke and shape, in radii of the stroke
+  outline: Point2D[];   // the clean shape, in screen pixels
+  polygon: boolean;     // straight edges with sharp corners, rather than a curve
+}
+
+interface Candidate {
+  shape: RecognizedShape;
+  vertices: Point2D[];  // closed polygon; curves are finely sampled
+  corners: boolean;     // true for polygons, whose vertices must survive resampling
+}
+
+// Finds the clean shape a closed stroke was meant to be: circle, ellipse, rectangle, triangle,
+// five-pointed star or (upright) heart. Each is fitted to the stroke, and the closest one wins if
+// the stroke strays from it by less than maxError on average.
+export function recognizeShape(points: Point2D[], maxError = SHAPES.MAX_ERROR): ShapeMatch | null {
+  if (points.length < 3 || polygonArea(points) === 0) return null;
+
+  const samples = resampleClosed(points, SHAPES.SAMPLES);
+  const center = centroid(samples);
+  const radius = Math.sqrt(samples.reduce((sum, p) => sum + (p.x - center.x) ** 2 + (p.y - center.y) ** 2, 0) / samples.length);
+  if (radius === 0) return null;
+
+  const candidates = [fitEllipse(samples, center), fitRectangle(samples), fitTriangle(samples), fitStar(samples, center), fitHeart(samples)]
+    .filter((candidate): candidate is Candidate => candidate !== null);
+
+  let best: ShapeMatch | null = null;
+  for (const candidate of candidates) {
+    const error = outlineGap(samples, candidate.vertices) / radius;
+    if (error <= maxError && (!best || error < best.error)) {
+      const outline = candidate.corners
+        ? samplePolygon(candidate.vertices, SHAPES.OUTLINE_POINTS)
+        : resampleClosed(candidate.vertices, SHAPES.OUTLINE_POINTS);
+      best = { shape: candidate.shape, error, outline, polygon: candidate.corners };
+    }
+  }
+  return best;
+}
+
+// The stroke redrawn as its clean shape, at an even width
+export function snapStroke(stroke: Stroke, match: ShapeMatch): Stroke {
+  return {
+    ...stroke,
+    points: match.outline,
+    widths: undefined,
+    opacities: undefined,
+    closed: true,
+    polygon: match.polygon || undefined
+  };
+}
+
+// Principal axes of the outline give the orientation; the semi-axes a, b then come from a least
+// squares fit of u²/a² + v²/b² = 1
+function fitEllipse(samples: Point2D[], center: Point2D): Candidate {
+  let xx = 0, yy = 0, xy = 0;
+  for (const p of samples) {
+    xx += (p.x - center.x) ** 2;
+    yy += (p.y - center.y) ** 2;
+    xy += (p.x - center.x) * (p.y - center.y);
+  }
+
+  const angle = Math.atan2(2 * xy, xx - yy) / 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  let uuuu = 0, vvvv = 0, uuvv = 0, uu = 0, vv = 0;
+  for (const p of samples) {
+    const u2 = ((p.x - center.x) * cos + (p.y - center.y) * sin) ** 2;
+    const v2 = (-(p.x - center.x) * sin + (p.y - center.y) * cos) ** 2;
+    uuuu += u2 * u2;
+    vvvv += v2 * v2;
+    uuvv += u2 * v2;
+    uu += u2;
+    vv += v2;
+  }
+  const det = uuuu * vvvv - uuvv * uuvv;
+  const p = (uu * vvvv - vv * uuvv) / det;
+  const q = (vv * uuuu - uu * uuvv) / det;
+
+  // A degenerate fit (a line, say) falls back to the average radius and fails on the error
+  const r = samples.reduce((sum, s) => sum + Math.hypot(s.x - center.x, s.y - center.y), 0) / samples.length;
+  const a = p > 0 ? 1 / Math.sqrt(p) : r;
+  const b = q > 0 ? 1 / Math.sqrt(q) : r;
+
+  if (Math.max(a, b) / Math.min(a, b) <= SHAPES.CIRCLE_RATIO) {
+    return { shape: 'circle', vertices: ellipsePoints(center, r, r, 0), corners: false };
+  }
+  return { shape: 'ellipse', vertices: ellipsePoints(center, a, b, angle), corners: false };
+}
+
+function ellipsePoints(center: Point2D, a: number, b: number, angle: number): Point2D[] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Array.from({ length: SHAPES.SAMPLES }, (_, i) => {
+    const t = i / SHAPES.SAMPLES * Math.PI * 2;
+    const u = Math.cos(t) * a;
+    const v = Math.sin(t) * b;
+    return { x: center.x + u * cos - v * sin, y: center.y + u * sin + v * cos };
+  });
+}
+
+// Smallest rectangle around the stroke; one of its sides lies along an edge of the convex hull
+function fitRectangle(samples: Point2D[]): Candidate | null {
+  const hull = convexHull(samples);
+  if (hull.length < 3) return null;
+
+  let best: { area: number; corners: Point2D[] } | null = null;
+  for (let i = 0; i < hull.length; i++) {
+    const a = hull[i];
+    const b = hull[(i + 1) % hull.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    const ux = (b.x - a.x) / length;
+    const uy = (b.y - a.y) / length;
+
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const p of hull) {
+      const u = p.x * ux + p.y * uy;
+      const v = -p.x * uy + p.y * ux;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (!best || area < best.area) {
+      const corner = (u: number, v: number) => ({ x: u * ux - v * uy, y: u * uy + v * ux });
+      best = { area, corners: [corner(minU, minV), corner(maxU, minV), corner(maxU, maxV), corner(minU, maxV)] };
+    }
+  }
+
+  return best ? { shape: 'rectangle', vertices: best.corners, corners: true } : null;
+}
+
+// The hull whittled down to three corners, dropping whichever adds the least area each time
+function fitTriangle(samples: Point2D[]): Candidate | null {
+  const hull = convexHull(samples);
+  if (hull.length < 3) return null;
+
+  while (hull.length > 3) {
+    let smallest = 0;
+    let smallestArea = Infinity;
+    for (let i = 0; i < hull.length; i++) {
+      const area = polygonArea([hull[(i + hull.length - 1) % hull.length], hull[i], hull[(i + 1) % hull.length]]);
+      if (area < smallestArea) {
+        smallestArea = area;
+        smallest = i;
+      }
+    }
+    hull.splice(smallest, 1);
+  }
+
+  return { shape: 'triangle', vertices: hull, corners: true };
+}
+
+// Five tips sticking well out from the center, with dips in between
+function fitStar(samples: Point2D[], center: Point2D): Candidate | null {
+  const count = samples.length;
+  const radii = samples.map(p => Math.hypot(p.x - center.x, p.y - center.y));
+  // Light smoothing, so a wobble on an edge isn't taken for a tip
+  const smoothed = radii.map((_, i) => (radii[(i + count - 1) % count] + radii[i] * 2 + radii[(i + 1) % count]) / 4);
+  const mean = smoothed.reduce((sum, r) => sum + r, 0) / count;
+
+  const tips: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const r = smoothed[i];
+    if (r > mean && r >= smoothed[(i + count - 1) % count] && r > smoothed[(i + 1) % count]) {
+      tips.push(i);
+    }
+  }
+  if (tips.length !== SHAPES.STAR_POINTS) return null;
+
+  const outer = tips.reduce((sum, i) => sum + radii[i], 0) / tips.length;
+  let inner = 0;
+  for (let k = 0; k < tips.length; k++) {
+    const from = tips[k];
+    const to = tips[(k + 1) % tips.length] + (k === tips.length - 1 ? count : 0);
+    let dip = Infinity;
+    for (let i = from; i <= to; i++) {
+      dip = Math.min(dip, smoothed[i % count]);
+    }
+    inner += dip / tips.length;
+  }
+  if (inner / outer > SHAPES.STAR_MAX_INNER) return null;
+
+  // Tips evenly spaced from the first one, in the direction the stroke went round
+  const angleOf = (i: number) => Math.atan2(samples[i].y - center.y, samples[i].x - center.x);
+  const start = angleOf(tips[0]);
+  const turn = Math.sign(normalizeAngle(angleOf(tips[1]) - start)) || 1;
+  const vertices: Point2D[] = [];
+  for (let k = 0; k < SHAPES.STAR_POINTS * 2; k++) {
+    const angle = start + turn * k * Math.PI / SHAPES.STAR_POINTS;
+    const r = k % 2 === 0 ? outer : inner;
+    vertices.push({ x: center.x + Math.cos(angle) * r, y: center.y + Math.sin(angle) * r });
+  }
+  return { shape: 'star', vertices, corners: true };
+}
+
+// The classic heart curve, stretched over the stroke's bounding box, point down
+function fitHeart(samples: Point2D[]): Candidate | null {
+  const curve = Array.from({ length: SHAPES.SAMPLES }, (_, i) => {
+    const t = i / SHAPES.SAMPLES * Math.PI * 2;
+    return {
+      x: 16 * Math.sin(t) ** 3,
+      y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t))
+    };
+  });
+
+  const from = bounds(curve);
+  const to = bounds(samples);
+  if (to.width === 0 || to.height === 0) return null;
+
+  const vertices = curve.map(p => ({
+    x: to.minX + (p.x - from.minX) / from.width * to.width,
+    y: to.minY + (p.y - from.minY) / from.height * to.height
+  }));
+  return { shape: 'heart', vertices, corners: false };
+}
+
+// Average distance from each outline to the other, so a shape can't match just part of the stroke
+function outlineGap(samples: Point2D[], vertices: Point2D[]): number {
+  const shapePoints = resampleClosed(vertices, SHAPES.SAMPLES);
+  const toShape = samples.reduce((sum, p) => sum + distanceToOutline(p, vertices), 0) / samples.length;
+  const toStroke = shapePoints.reduce((sum, p) => sum + distanceToOutline(p, samples), 0) / shapePoints.length;
+  return (toShape + toStroke) / 2;
+}
+
+function distanceToOutline(point: Point2D, outline: Point2D[]): number {
+  let nearest = Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq)) : 0;
+    nearest = Math.min(nearest, Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy)));
+  }
+  return nearest;
+}
+
+// count points evenly spaced along the closed outline, so fast and slow stretches weigh the same
+function resampleClosed(points: Point2D[], count: number): Point2D[] {
+  const loop = [...points, points[0]];
+  let perimeter = 0;
+  for (let i = 1; i < loop.length; i++) {
+    perimeter += Math.hypot(loop[i].x - loop[i - 1].x, loop[i].y - loop[i - 1].y);
+  }
+  if (perimeter === 0) return [points[0]];
+
+  const step = perimeter / count;
+  const result: Point2D[] = [points[0]];
+  let travelled = 0;
+  let next = step;
+  for (let i = 1; i < loop.length && result.length < count; i++) {
+    const a = loop[i - 1];
+    const b = loop[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    while (length > 0 && travelled + length >= next && result.length < count) {
+      const t = (next - travelled) / length;
+      result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+      next += step;
+    }
+    travelled += length;
+  }
+  return result;
+}
+
+// Like resampleClosed, but every vertex is kept so corners stay sharp
+function samplePolygon(vertices: Point2D[], count: number): Point2D[] {
+  const lengths = vertices.map((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  });
+  const perimeter = lengths.reduce((sum, length) => sum + length, 0);
+
+  // Points per edge in proportion to its length, every edge at least one (its start corner).
+  // Rounding is settled by largest remainder so the total is exactly count.
+  const shares = lengths.map(length => count * length / perimeter);
+  const edgeSteps = shares.map(share => Math.max(1, Math.floor(share)));
+  const byRemainder = shares.map((_, i) => i).sort((i, j) => (shares[j] - edgeSteps[j]) - (shares[i] - edgeSteps[i]));
+  let spare = count - edgeSteps.reduce((sum, steps) => sum + steps, 0);
+  for (let k = 0; spare > 0; k = (k + 1) % byRemainder.length, spare--) {
+    edgeSteps[byRemainder[k]]++;
+  }
+  for (let k = byRemainder.length - 1; spare < 0 && k >= 0; k--) {
+    if (edgeSteps[byRemainder[k]] > 1) {
+      edgeSteps[byRemainder[k]]--;
+      spare++;
+    }
+  }
+
+  const result: Point2D[] = [];
+  vertices.forEach((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    const steps = edgeSteps[i];
+    for (let k = 0; k < steps; k++) {
+      result.push({ x: a.x + (b.x - a.x) * k / steps, y: a.y + (b.y - a.y) * k / steps });
+    }
+  });
+  return result;
+}
+
+// Andrew's monotone chain, counter-clockwise in screen space
+function convexHull(points: Point2D[]): Point2D[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Point2D[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2D[] = [];
+  for (const p of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+function centroid(points: Point2D[]): Point2D {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function bounds(points: Point2D[]): { minX: number; minY: number; width: number; height: number } {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { minX, minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+function normalizeAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,132 @@
+import { Point2D, StrokeWidthMode } from './types';
+import { STROKE_WIDTH } from './constants';
+
+export interface WidthSample {
+  factor: number;   // multiple of the tool width
+  opacity: number;  // 0-1
+}
+
+export interface RibbonOutline {
+  left: Point2D[];
+  right: Point2D[];
+  widths: number[];  // after tapering
+}
+
+// Turns fingertip speed or hand depth into a width for each point of a stroke. Speed thins the
+// line like a brush flicked across paper; depth widens it as the hand reaches towards the camera.
+export class StrokeWidthModel {
+  private mode: StrokeWidthMode;
+  private last: { point: Point2D; time: number } | null = null;
+  private startDepth: number | null = null;
+  private factor = 1;
+
+  constructor(mode: StrokeWidthMode = STROKE_WIDTH.DEFAULT_MODE) {
+    this.mode = mode;
+  }
+
+  getMode(): StrokeWidthMode {
+    return this.mode;
+  }
+
+  setMode(mode: StrokeWidthMode): void {
+    this.mode = mode;
+    this.reset();
+  }
+
+  // time in ms; depth in meters from the camera, null when unknown
+  sample(point: Point2D, time: number, depth: number | null = null): WidthSample {
+    const target = this.targetFactor(point, time, depth);
+    this.factor = this.last ? this.factor + (target - this.factor) * STROKE_WIDTH.EASING : target;
+    this.last = { point, time };
+    return { factor: this.factor, opacity: this.opacity() };
+  }
+
+  // Call at the start of each stroke
+  reset(): void {
+    this.last = null;
+    this.startDepth = null;
+    this.factor = 1;
+  }
+
+  private targetFactor(point: Point2D, time: number, depth: number | null): number {
+    switch (this.mode) {
+      case 'speed': {
+        if (!this.last) return STROKE_WIDTH.MAX_FACTOR;
+        const dt = (time - this.last.time) / 1000;
+        // A second point within the same instant has no speed to measure
+        if (dt <= 0) return this.factor;
+        const speed = Math.hypot(point.x - this.last.point.x, point.y - this.last.point.y) / dt;
+        const t = Math.min(1, speed / STROKE_WIDTH.FAST_SPEED);
+        return STROKE_WIDTH.MAX_FACTOR - (STROKE_WIDTH.MAX_FACTOR - STROKE_WIDTH.MIN_FACTOR) * t;
+      }
+      case 'depth': {
+        if (depth === null) return this.factor;
+        if (this.startDepth === null) this.startDepth = depth;
+        // Each stroke starts at the tool width, wherever the hand happens to be
+        const reach = (this.startDepth - depth) / STROKE_WIDTH.DEPTH_RANGE;
+        return clamp(1 + reach * (STROKE_WIDTH.MAX_FACTOR - 1), STROKE_WIDTH.MIN_FACTOR, STROKE_WIDTH.MAX_FACTOR);
+      }
+      default:
+        return 1;
+    }
+  }
+
+  // Fast, thin ink also runs lighter
+  private opacity(): number {
+    if (this.mode !== 'speed') return 1;
+    const t = (this.factor - STROKE_WIDTH.MIN_FACTOR) / (STROKE_WIDTH.MAX_FACTOR - STROKE_WIDTH.MIN_FACTOR);
+    return STROKE_WIDTH.MIN_OPACITY + (1 - STROKE_WIDTH.MIN_OPACITY) * clamp(t, 0, 1);
+  }
+}
+
+// Edges of a stroke whose width varies per point. Open strokes narrow over the last
+// STROKE_WIDTH.TAPER_LENGTH pixels at each end; a stroke still being drawn only at its start.
+export function ribbonOutline(
+  points: Point2D[],
+  widths: number[],
+  closed: boolean,
+  taperEnd = true
+): RibbonOutline {
+  const count = points.length;
+  const fromStart: number[] = [0];
+  for (let i = 1; i < count; i++) {
+    fromStart.push(fromStart[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const total = fromStart[count - 1] ?? 0;
+
+  const taper = (distance: number) =>
+    STROKE_WIDTH.TAPER_MIN + (1 - STROKE_WIDTH.TAPER_MIN) * Math.min(1, distance / STROKE_WIDTH.TAPER_LENGTH);
+
+  const left: Point2D[] = [];
+  const right: Point2D[] = [];
+  const tapered: number[] = [];
+  let normal: Point2D = { x: 0, y: -1 };
+
+  for (let i = 0; i < count; i++) {
+    let width = widths[i];
+    if (!closed) {
+      width *= taper(fromStart[i]);
+      if (taperEnd) width *= taper(total - fromStart[i]);
+    }
+
+    // Tangent across the neighbours; open ends use the one neighbour they have
+    const prev = points[i > 0 ? i - 1 : closed ? count - 1 : i];
+    const next = points[i < count - 1 ? i + 1 : closed ? 0 : i];
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+    // A point doubling back on itself keeps the previous direction
+    if (length > 0) {
+      normal = { x: -(next.y - prev.y) / length, y: (next.x - prev.x) / length };
+    }
+
+    const p = points[i];
+    left.push({ x: p.x + normal.x * width / 2, y: p.y + normal.y * width / 2 });
+    right.push({ x: p.x - normal.x * width / 2, y: p.y - normal.y * width / 2 });
+    tapered.push(width);
+  }
+
+  return { left, right, widths: tapered };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
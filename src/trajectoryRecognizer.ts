@@ -0,0 +1,192 @@
+import { GestureType, Point2D } from './types';
+import { TRAJECTORY } from './constants';
+
+export interface TrajectoryOptions {
+  window?: number;
+  swipeDistance?: number;
+  swipeStraightness?: number;
+  swipeMaxDuration?: number;
+  circleTurn?: number;
+  circleMinPath?: number;
+  circleClosure?: number;
+  flickDistance?: number;
+  flickMaxDuration?: number;
+  stopSpeed?: number;
+  cooldown?: number;
+}
+
+export interface TrajectoryMatch {
+  gesture: GestureType;
+  confidence: number;
+}
+
+export const MOTION_GESTURES: GestureType[] = [
+  'swipe-left', 'swipe-right', 'swipe-up', 'swipe-down', 'circle-cw', 'circle-ccw', 'flick'
+];
+
+// Movement gestures last a single frame rather than being held like poses
+export function isMotionGesture(gesture: GestureType): boolean {
+  return MOTION_GESTURES.includes(gesture);
+}
+
+interface TrajectorySample {
+  time: number;    // ms
+  x: number;       // position in hand sizes, so thresholds hold at any distance
+  y: number;
+}
+
+// Recognizes movement gestures from the recent path of the palm: directional swipes,
+// clockwise/counter-clockwise circles and quick flicks. Each one fires once, then the path
+// is cleared so a single motion isn't reported twice.
+export class TrajectoryRecognizer {
+  private samples: TrajectorySample[] = [];
+  private cooldownUntil = 0;
+  private options: Required<TrajectoryOptions>;
+
+  constructor(options: TrajectoryOptions = {}) {
+    this.options = {
+      window: options.window ?? TRAJECTORY.WINDOW,
+      swipeDistance: options.swipeDistance ?? TRAJECTORY.SWIPE_DISTANCE,
+      swipeStraightness: options.swipeStraightness ?? TRAJECTORY.SWIPE_STRAIGHTNESS,
+      swipeMaxDuration: options.swipeMaxDuration ?? TRAJECTORY.SWIPE_MAX_DURATION,
+      circleTurn: options.circleTurn ?? TRAJECTORY.CIRCLE_TURN,
+      circleMinPath: options.circleMinPath ?? TRAJECTORY.CIRCLE_MIN_PATH,
+      circleClosure: options.circleClosure ?? TRAJECTORY.CIRCLE_CLOSURE,
+      flickDistance: options.flickDistance ?? TRAJECTORY.FLICK_DISTANCE,
+      flickMaxDuration: options.flickMaxDuration ?? TRAJECTORY.FLICK_MAX_DURATION,
+      stopSpeed: options.stopSpeed ?? TRAJECTORY.STOP_SPEED,
+      cooldown: options.cooldown ?? TRAJECTORY.COOLDOWN
+    };
+  }
+
+  getOptions(): Required<TrajectoryOptions> {
+    return { ...this.options };
+  }
+
+  setOptions(options: TrajectoryOptions): void {
+    for (const [key, value] of Object.entries(options) as [keyof TrajectoryOptions, number | undefined][]) {
+      if (value !== undefined) {
+        this.options[key] = value;
+      }
+    }
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  // position is in screen pixels; handScale converts it to hand sizes.
+  // suppressed is true while a pose (drawing, grabbing) moves the hand on purpose.
+  update(time: number, position: Point2D, handScale: number, suppressed: boolean): TrajectoryMatch | null {
+    if (suppressed || handScale <= 0) {
+      this.samples = [];
+      return null;
+    }
+
+    this.samples.push({ time, x: position.x / handScale, y: position.y / handScale });
+    while (this.samples.length > 0 && time - this.samples[0].time > this.options.window) {
+      this.samples.shift();
+    }
+
+    if (time < this.cooldownUntil || this.samples.length < 3) return null;
+
+    const match = this.detectCircle() ?? this.detectSwipe() ?? this.detectFlick();
+    if (match) {
+      this.samples = [];
+      this.cooldownUntil = time + this.options.cooldown;
+    }
+    return match;
+  }
+
+  // 0.5 exactly on the threshold, 1 once the measurement is a quarter past it
+  private confidence(value: number, threshold: number): number {
+    const margin = (value - threshold) / (threshold * 0.25);
+    return Math.min(1, 0.5 + Math.max(0, margin) / 2);
+  }
+
+  private pathLength(samples: TrajectorySample[]): number {
+    let length = 0;
+    for (let i = 1; i < samples.length; i++) {
+      length += Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y);
+    }
+    return length;
+  }
+
+  // Fast, straight travel; slowly repositioning the hand never gets far enough in time
+  private detectSwipe(): TrajectoryMatch | null {
+    const last = this.samples[this.samples.length - 1];
+    const recent = this.samples.filter(s => last.time - s.time <= this.options.swipeMaxDuration);
+    const first = recent[0];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+    const distance = Math.hypot(dx, dy);
+    const path = this.pathLength(recent);
+
+    if (distance < this.options.swipeDistance || path === 0) return null;
+
+    const straightness = distance / path;
+    if (straightness < this.options.swipeStraightness) return null;
+
+    // Screen y grows downwards
+    const gesture: GestureType = Math.abs(dx) > Math.abs(dy)
+      ? (dx > 0 ? 'swipe-right' : 'swipe-left')
+      : (dy > 0 ? 'swipe-down' : 'swipe-up');
+
+    return { gesture, confidence: this.confidence(distance, this.options.swipeDistance) };
+  }
+
+  private detectCircle(): TrajectoryMatch | null {
+    const path = this.pathLength(this.samples);
+    if (path < this.options.circleMinPath) return null;
+
+    // Sum the signed turning angle between consecutive movement directions
+    let turn = 0;
+    let previous: Point2D | null = null;
+    for (let i = 1; i < this.samples.length; i++) {
+      const step = { x: this.samples[i].x - this.samples[i - 1].x, y: this.samples[i].y - this.samples[i - 1].y };
+      if (Math.hypot(step.x, step.y) < 1e-3) continue;
+
+      if (previous) {
+        const cross = previous.x * step.y - previous.y * step.x;
+        const dot = previous.x * step.x + previous.y * step.y;
+        turn += Math.atan2(cross, dot);
+      }
+      previous = step;
+    }
+
+    if (Math.abs(turn) < this.options.circleTurn) return null;
+
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    if (Math.hypot(last.x - first.x, last.y - first.y) > path * this.options.circleClosure) return null;
+
+    // With y pointing down, a positive turn is clockwise on screen
+    return {
+      gesture: turn > 0 ? 'circle-cw' : 'circle-ccw',
+      confidence: this.confidence(Math.abs(turn), this.options.circleTurn)
+    };
+  }
+
+  // A short, fast burst that has just come to a stop
+  private detectFlick(): TrajectoryMatch | null {
+    const n = this.samples.length;
+    const last = this.samples[n - 1];
+    const beforeLast = this.samples[n - 2];
+    const dt = (last.time - beforeLast.time) / 1000;
+    const speed = dt > 0 ? Math.hypot(last.x - beforeLast.x, last.y - beforeLast.y) / dt : Infinity;
+    if (speed > this.options.stopSpeed) return null;
+
+    const burst = this.samples.filter(s => last.time - s.time <= this.options.flickMaxDuration);
+    const start = burst[0];
+    const distance = Math.hypot(beforeLast.x - start.x, beforeLast.y - start.y);
+    if (distance < this.options.flickDistance) return null;
+
+    // The hand must have been still before the burst, otherwise it's just the end of a wave
+    const before = this.samples.filter(s => s.time < start.time);
+    if (before.length > 0 && this.pathLength([...before, start]) > this.options.flickDistance * 0.5) {
+      return null;
+    }
+
+    return { gesture: 'flick', confidence: this.confidence(distance, this.options.flickDistance) };
+  }
+}
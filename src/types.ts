@@ -16,11 +16,125 @@ export interface Stroke {
   color: string;
   width: number;
   closed: boolean;
+  widths?: number[];     // Per-point width, parallel to points; without it every point is `width` wide
+  opacities?: number[];  // Per-point opacity (0-1), parallel to points
+  holes?: Point2D[][];   // Closed outlines inside this one, cut out of the balloon
+  polygon?: boolean;     // Straight edges between the points (a snapped polygon) instead of a smooth curve
 }
 
+// What varies a stroke's width along its length
+export type StrokeWidthMode = 'constant' | 'speed' | 'depth';
+
+// Clean shapes a closed stroke can snap to before inflating
+export type RecognizedShape = 'circle' | 'ellipse' | 'rectangle' | 'triangle' | 'star' | 'heart';
+
+// Whether closing a recognized shape snaps it: never, after asking, or straight away
+export type ShapeSnapMode = 'off' | 'ask' | 'auto';
+
+// From the user's point of view (MediaPipe's mirrored labels are corrected at the source)
+export type Handedness = 'left' | 'right';
+
+// What a hand does when both hands are in view
+export type HandRole = 'draw' | 'palette' | 'tools' | 'camera' | 'none';
+
+// What pointing does with the drawing hand; picked by finger count (see SHORTCUTS)
+export type DrawingTool = 'pen' | 'marker' | 'eraser';
+
 export interface HandLandmarks {
   landmarks: Point2D[];
   worldLandmarks?: Point3D[];
+  handedness?: Handedness;
+  predicted?: boolean;   // Extrapolated to bridge a dropped tracking frame
+  confidence?: number;   // 1 for tracked frames, lower the longer a prediction runs
+}
+
+// Drawing smoothing: an optional dead zone followed by one low-pass filter (see pointFilters.ts)
+export type SmoothingFilterType = 'one-euro' | 'exponential' | 'moving-average';
+
+export interface SmoothingSettings {
+  filter: SmoothingFilterType;
+  deadZone: number;     // px of movement ignored outright; 0 turns it off
+  minCutoff: number;    // One Euro: cutoff in Hz when still (lower = steadier slow strokes)
+  beta: number;         // One Euro: cutoff increase per px/s (higher = less lag on fast strokes)
+  alpha: number;        // exponential: weight of each new point (0..1)
+  window: number;       // moving average: points averaged
+}
+
+// Raw tracker output before conversion to screen space (MediaPipe layout)
+export interface LandmarkFrame {
+  timestamp: number;                   // ms, relative to the source's start
+  multiHandLandmarks: Point3D[][];     // normalized 0..1 image coordinates
+  multiHandWorldLandmarks?: Point3D[][];
+  multiHandedness?: Handedness[];
+  imageWidth?: number;                 // camera frame size in pixels, if known
+  imageHeight?: number;
+}
+
+// How camera space is fitted onto the screen
+export type MappingMode = 'stretch' | 'contain' | 'cover' | 'region';
+
+// Normalized rectangle in the mirrored camera image (0..1)
+export interface ActiveRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MappingSettings {
+  mode: MappingMode;
+  region: ActiveRegion;
+}
+
+export type CameraPreset = 'low' | 'medium' | 'high' | 'smooth';
+
+export interface CameraSettings {
+  deviceId?: string;     // undefined = browser's default front camera
+  preset: CameraPreset;
+}
+
+// Messages between WebcamLandmarkSource and the inference worker
+export interface HandTrackingOptions {
+  maxNumHands: number;
+  modelComplexity: 0 | 1;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+}
+
+// What the inference governor trades off to hold its latency target
+export interface InferenceSettings {
+  modelComplexity: 0 | 1;
+  inputScale: number;   // fraction of the camera resolution sent to the model
+  frameSkip: number;    // camera frames skipped between inferences
+}
+
+export type HandWorkerRequest =
+  | { type: 'init'; baseUrl: string; fileUrls: Record<string, string>; options: HandTrackingOptions }
+  | { type: 'options'; fileUrls: Record<string, string>; options: HandTrackingOptions }
+  | { type: 'frame'; image: ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+export type HandWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | {
+      type: 'results';
+      timestamp: number;
+      multiHandLandmarks: Point3D[][];
+      multiHandWorldLandmarks: Point3D[][];
+      handednessLabels: ('Left' | 'Right')[];  // MediaPipe's raw (mirrored) labels
+    };
+
+export interface RecordedFrame extends LandmarkFrame {
+  color: string;                       // active drawing color when captured
+}
+
+export interface LandmarkRecording {
+  version: number;
+  recordedAt: string;                  // ISO date
+  canvasWidth: number;                 // window size when recorded, for reference: landmarks are
+  canvasHeight: number;                //   normalized, so replay maps them onto the current window
+  frames: RecordedFrame[];
 }
 
 export type GestureType =
@@ -30,7 +144,42 @@ export type GestureType =
   | 'palm'      // Open palm
   | 'fist'      // Closed fist
   | 'poke'      // Index pointing at object
-  | 'swipe';    // Fast horizontal movement
+  | 'swipe'     // Fast horizontal movement
+  | 'swipe-left' | 'swipe-right' | 'swipe-up' | 'swipe-down'  // One-shot directional swipes
+  | 'circle-cw' | 'circle-ccw'  // One-shot circles, as seen on screen
+  | 'flick'     // Short, fast burst from rest
+  | `custom:${string}`;  // User-trained pose (see gestureTemplates.ts)
+
+// A user-trained static pose: feature vectors from a few recorded frames
+export interface CustomGesture {
+  id: GestureType;       // 'custom:<slug>'
+  name: string;
+  samples: number[][];
+  createdAt: string;
+}
+
+// Thresholds the gesture detector classifies against. Pixel values apply to a hand of
+// GESTURE.REFERENCE_HAND_SCALE and scale with the hand in view.
+export interface GestureThresholds {
+  fingerCurl: number;      // tip-to-wrist / pip-to-wrist ratio between curled and extended
+  curlBand: number;        // ratio change from fingerCurl to a clear-cut pose
+  thumbSpread: number;     // thumb-tip-to-index-knuckle / thumb-tip length ratio
+  thumbBand: number;
+  pinch: number;           // thumb-to-index-tip pixels
+  palmStability: number;   // palm movement in pixels still counted as held still
+}
+
+// A named user's personal thresholds from the calibration wizard
+export interface CalibrationProfile {
+  name: string;
+  thresholds: GestureThresholds;
+  createdAt: string;
+}
+
+export interface CustomGestureLibrary {
+  version: number;
+  gestures: CustomGesture[];
+}
 
 export interface GestureState {
   current: GestureType;
@@ -38,6 +187,10 @@ export interface GestureState {
   duration: number;      // How long current gesture has been held
   velocity: Point2D;     // Hand movement velocity
   confidence: number;
+  depth: number | null;  // Estimated hand distance from the camera in meters; null without world landmarks
+  push: number | null;   // Push to draw: 0 at rest, 1 at the drawing plane; null when off
+  fingers: number;       // Extended fingers, thumb included (0-5)
+  fingersDuration: number;  // How long that count has been held
 }
 
 export interface BalloonObject {
@@ -58,6 +211,19 @@ export interface BalloonObject {
   squishAmount: number;
 }
 
+// Where an object rests and how it's turned, for undoing moves and rotations
+export interface ObjectTransform {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+}
+
+// Enough of a removed balloon to bring it back (its mesh is rebuilt from the stroke)
+export interface BalloonSnapshot {
+  id: string;
+  stroke: Stroke;
+  transform: ObjectTransform;
+}
+
 export interface AppState {
   isDrawing: boolean;
   currentStroke: Stroke | null;
@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe Hands model and WASM files are served from (defaults to the bundled copy)
+  readonly VITE_MEDIAPIPE_ASSET_BASE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Size + SHA-256 of every MediaPipe asset, embedded by the mediapipe-assets Vite plugin
+declare const __MEDIAPIPE_CHECKSUMS__: Record<string, { size: number; sha256: string }>;
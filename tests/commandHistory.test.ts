@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Command, CommandHistory } from '../src/commandHistory';
+
+// Commands that edit a shared list, like the app's edits to the scene
+function setup(maxEntries?: number) {
+  const items: string[] = [];
+  const history = new CommandHistory(maxEntries);
+  const add = (item: string) => {
+    items.push(item);
+    const command: Command = {
+      label: `Add ${item}`,
+      undo: () => items.splice(items.indexOf(item), 1),
+      redo: () => items.push(item)
+    };
+    history.record(command);
+  };
+  return { items, history, add };
+}
+
+describe('CommandHistory', () => {
+  it('undoes and redoes in order', () => {
+    const { items, history, add } = setup();
+    add('a');
+    add('b');
+
+    expect(history.undo()?.label).toBe('Add b');
+    expect(items).toEqual(['a']);
+    expect(history.undo()?.label).toBe('Add a');
+    expect(items).toEqual([]);
+
+    history.redo();
+    history.redo();
+    expect(items).toEqual(['a', 'b']);
+  });
+
+  it('returns null when there is nothing to undo or redo', () => {
+    const { history, add } = setup();
+    expect(history.undo()).toBeNull();
+    add('a');
+    expect(history.redo()).toBeNull();
+  });
+
+  it('drops the redo stack when a new edit is recorded', () => {
+    const { items, history, add } = setup();
+    add('a');
+    history.undo();
+    add('b');
+
+    expect(history.redo()).toBeNull();
+    expect(items).toEqual(['b']);
+  });
+
+  it('forgets the oldest edits beyond its limit', () => {
+    const { items, history, add } = setup(2);
+    add('a');
+    add('b');
+    add('c');
+
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBeNull();
+    expect(items).toEqual(['a']);
+  });
+
+  it('has nothing to undo or redo after clearing', () => {
+    const { items, history, add } = setup();
+    add('a');
+    add('b');
+    history.undo();
+    history.clear();
+
+    expect(history.undo()).toBeNull();
+    expect(history.redo()).toBeNull();
+    expect(items).toEqual(['a']);
+  });
+});
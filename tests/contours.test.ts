@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { containsContour, groupContours, pointInPolygon, polygonArea } from '../src/contours';
+import { Point2D, Stroke } from '../src/types';
+
+function circle(cx: number, cy: number, r: number, count = 24): Point2D[] {
+  return Array.from({ length: count }, (_, i) => ({
+    x: cx + Math.cos(i / count * Math.PI * 2) * r,
+    y: cy + Math.sin(i / count * Math.PI * 2) * r
+  }));
+}
+
+function outline(points: Point2D[], color = '#FFB3BA'): Stroke {
+  return { points, color, width: 10, closed: true };
+}
+
+const square: Point2D[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+describe('geometry', () => {
+  it('tells inside from outside', () => {
+    expect(pointInPolygon({ x: 50, y: 50 }, square)).toBe(true);
+    expect(pointInPolygon({ x: 150, y: 50 }, square)).toBe(false);
+  });
+
+  it('measures area whichever way the outline was drawn', () => {
+    expect(polygonArea(square)).toBe(10000);
+    expect(polygonArea([...square].reverse())).toBe(10000);
+  });
+
+  it('lets an inner outline graze its container', () => {
+    const inner = circle(50, 50, 40);
+    inner[0] = { x: 105, y: 50 };  // one point strays past the edge
+    expect(containsContour(square, inner)).toBe(true);
+    expect(containsContour(square, circle(100, 50, 40))).toBe(false);
+  });
+});
+
+describe('groupContours', () => {
+  it('turns a circle inside another into a hole', () => {
+    const outer = outline(circle(200, 200, 100));
+    const inner = outline(circle(200, 200, 40));
+
+    // Drawing order doesn't matter
+    const shapes = groupContours([inner, outer]);
+    expect(shapes).toHaveLength(1);
+    expect(shapes[0].points).toBe(outer.points);
+    expect(shapes[0].holes).toEqual([inner.points]);
+  });
+
+  it('cuts several holes in one shape', () => {
+    const face = outline(circle(200, 200, 150));
+    const eyes = [outline(circle(150, 160, 20)), outline(circle(250, 160, 20))];
+    const shapes = groupContours([face, ...eyes]);
+    expect(shapes).toHaveLength(1);
+    expect(shapes[0].holes).toHaveLength(2);
+  });
+
+  it('inflates an island inside a hole on its own', () => {
+    const ring = outline(circle(200, 200, 150));
+    const hole = outline(circle(200, 200, 100));
+    const island = outline(circle(200, 200, 40), '#BAFFC9');
+
+    const shapes = groupContours([ring, hole, island]);
+    expect(shapes).toHaveLength(2);
+    expect(shapes[0].holes).toEqual([hole.points]);
+    expect(shapes[1].points).toBe(island.points);
+    expect(shapes[1].color).toBe('#BAFFC9');
+    expect(shapes[1].holes).toEqual([]);
+  });
+
+  it('keeps outlines side by side as separate shapes', () => {
+    const shapes = groupContours([outline(circle(100, 100, 50)), outline(circle(300, 100, 50))]);
+    expect(shapes).toHaveLength(2);
+    expect(shapes.every(shape => shape.holes?.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DrawingCanvas } from '../src/drawingCanvas';
+import { ManualClock } from './fixtures/clock';
+
+// Recording points doesn't draw, so the context only needs to exist
+function createCanvas(clock: ManualClock): DrawingCanvas {
+  const canvas = { getContext: () => ({}) } as unknown as HTMLCanvasElement;
+  return new DrawingCanvas(canvas, clock);
+}
+
+describe('DrawingCanvas', () => {
+  it('keeps per-point widths without changing the width of the whole stroke', () => {
+    const clock = new ManualClock();
+    const drawing = createCanvas(clock);
+
+    drawing.startStroke({ x: 100, y: 100 }, '#FFB3BA', 8);
+    clock.advance(16);
+    drawing.addPoint({ x: 150, y: 100 });
+    clock.advance(16);
+    drawing.addPoint({ x: 200, y: 100 }, null, 4);
+    clock.advance(16);
+    drawing.addPoint({ x: 250, y: 100 }, null, 12);
+
+    const stroke = drawing.getCurrentStroke()!;
+    expect(stroke.width).toBe(8);
+    expect(stroke.widths).toEqual([8, 8, 4, 12]);
+    expect(stroke.opacities).toEqual([1, 1, 1, 1]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { GestureDetector } from '../src/gestureDetector';
+import { FingerCountPicker, FingerPick } from '../src/fingerShortcuts';
+import { SHORTCUTS } from '../src/constants';
+import { ManualClock, detectFrames, repeat } from './fixtures/clock';
+import { FixturePose, handFixture } from './fixtures/hands';
+
+// Holds each pose for `ms` and returns the picker's result after every frame
+function hold(poses: [FixturePose, number][], optionCount = 5): FingerPick[] {
+  const clock = new ManualClock();
+  const detector = new GestureDetector(clock);
+  const picker = new FingerCountPicker();
+  const frameMs = 50;
+
+  return poses.flatMap(([pose, ms]) =>
+    detectFrames(detector, clock, repeat(handFixture(pose), Math.round(ms / frameMs)), frameMs)
+      .map(state => picker.update(state, optionCount))
+  );
+}
+
+describe('FingerCountPicker', () => {
+  it('picks the option matching the finger count once it has been held', () => {
+    const picks = hold([['three', SHORTCUTS.HOLD_TIME + 500]]);
+    const picked = picks.filter(p => p.picked);
+
+    expect(picked).toHaveLength(1);
+    expect(picked[0].index).toBe(2);
+    expect(picks[picks.length - 1].progress).toBe(1);
+  });
+
+  it('fills progress while the count is held', () => {
+    const picks = hold([['peace', SHORTCUTS.HOLD_TIME / 2]]);
+    const last = picks[picks.length - 1];
+    expect(last.index).toBe(1);
+    expect(last.progress).toBeGreaterThan(0);
+    expect(last.progress).toBeLessThan(1);
+    expect(picks.some(p => p.picked)).toBe(false);
+  });
+
+  it('picks again after the count changes', () => {
+    const picks = hold([['peace', 1000], ['three', 1000], ['peace', 1000]]);
+    expect(picks.filter(p => p.picked).map(p => p.index)).toEqual([1, 2, 1]);
+  });
+
+  it('ignores a fist and counts beyond the options', () => {
+    expect(hold([['fist', 1000]]).every(p => p.index === null && !p.picked)).toBe(true);
+    expect(hold([['palm', 1000]], 3).every(p => p.index === null && !p.picked)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { Clock } from '../../src/clock';
+import { GestureDetector } from '../../src/gestureDetector';
+import { GestureState, HandLandmarks } from '../../src/types';
+
+// 30 fps
+export const FRAME_MS = 1000 / 30;
+
+// A clock that only moves when told to
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start = 1000) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+// Feeds frames at a steady rate, returning the state after each one
+export function detectFrames(
+  detector: GestureDetector,
+  clock: ManualClock,
+  frames: (HandLandmarks | null)[],
+  frameMs = FRAME_MS
+): GestureState[] {
+  return frames.map(frame => {
+    clock.advance(frameMs);
+    return detector.detect(frame);
+  });
+}
+
+export function repeat<T>(frame: T, count: number): T[] {
+  return Array.from({ length: count }, () => frame);
+}
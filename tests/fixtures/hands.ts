@@ -0,0 +1,49 @@
+import { Handedness, HandLandmarks, Point3D } from '../../src/types';
+import { SyntheticPose, buildSyntheticHand } from '../../src/landmarkSource';
+
+// Hand poses share their geometry with the synthetic landmark source
+export type FixturePose = SyntheticPose;
+
+// Screen-pixel focal length assumed when a fixture is placed at a distance from the camera
+export const FIXTURE_FOCAL_LENGTH = 1000;
+
+// Real wrist-to-middle-knuckle length, in meters
+export const FIXTURE_HAND_SIZE = 0.09;
+
+export interface FixtureOptions {
+  x?: number;                 // wrist position on screen, in pixels
+  y?: number;
+  size?: number;              // wrist to middle knuckle on screen, in pixels
+  handedness?: Handedness;
+  distance?: number;          // meters from the camera; adds world landmarks and sets the size
+  zOffsets?: Partial<Record<number, number>>;  // per-landmark depth offsets in meters (+ = away)
+}
+
+// A single frame of a pose, in screen pixels like HandTracker produces
+export function handFixture(pose: FixturePose, options: FixtureOptions = {}): HandLandmarks {
+  const { x = 640, y = 500, size = 100, handedness = 'right', distance, zOffsets = {} } = options;
+
+  if (distance === undefined) {
+    const landmarks = buildSyntheticHand({ pose, x, y, size, hand: handedness });
+    return {
+      landmarks: landmarks.map(({ x, y }) => ({ x, y })),
+      handedness
+    };
+  }
+
+  // Place the hand in meters, then project it through a pinhole camera
+  const worldLandmarks: Point3D[] = buildSyntheticHand({ pose, x: 0, y: 0, size: FIXTURE_HAND_SIZE, hand: handedness })
+    .map((w, i) => ({ ...w, z: zOffsets[i] ?? 0 }));
+  const landmarks = worldLandmarks.map(w => ({
+    x: x + FIXTURE_FOCAL_LENGTH * w.x / (distance + w.z),
+    y: y + FIXTURE_FOCAL_LENGTH * w.y / (distance + w.z)
+  }));
+
+  return { landmarks, worldLandmarks, handedness };
+}
+
+// The same pose moved by (dx, dy) pixels per frame
+export function movingFixture(pose: FixturePose, frames: number, dx: number, dy: number, options: FixtureOptions = {}): HandLandmarks[] {
+  const { x = 640, y = 500 } = options;
+  return Array.from({ length: frames }, (_, i) => handFixture(pose, { ...options, x: x + dx * i, y: y + dy * i }));
+}
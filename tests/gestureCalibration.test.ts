@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { GestureCalibrator, CALIBRATION_STEPS, CalibrationPose, isValidThresholds } from '../src/gestureCalibration';
+import { GestureDetector } from '../src/gestureDetector';
+import { CALIBRATION } from '../src/constants';
+import { GestureType } from '../src/types';
+import { ManualClock, detectFrames, repeat } from './fixtures/clock';
+import { FixturePose, handFixture } from './fixtures/hands';
+
+const EXPECTED: Record<CalibrationPose, GestureType> = {
+  palm: 'palm',
+  fist: 'fist',
+  pinch: 'pinch',
+  point: 'draw'
+};
+
+function calibrate(poseFor: (pose: CalibrationPose) => FixturePose): GestureCalibrator {
+  const calibrator = new GestureCalibrator();
+  for (const step of CALIBRATION_STEPS) {
+    for (let i = 0; i < CALIBRATION.SAMPLES; i++) {
+      // A little movement, like a real hand trying to hold still
+      calibrator.addSample(step.pose, handFixture(poseFor(step.pose), { x: 640 + (i % 3) }));
+    }
+  }
+  return calibrator;
+}
+
+describe('GestureCalibrator', () => {
+  it('needs every pose before it is complete', () => {
+    const calibrator = new GestureCalibrator();
+    calibrator.addSample('palm', handFixture('palm'));
+    expect(calibrator.getSampleCount('palm')).toBe(1);
+    expect(calibrator.isComplete()).toBe(false);
+  });
+
+  it('derives thresholds that still classify every calibration pose', () => {
+    const calibrator = calibrate(pose => pose);
+    expect(calibrator.isComplete()).toBe(true);
+
+    const { thresholds } = calibrator.createProfile('test');
+    for (const pose of Object.keys(EXPECTED) as CalibrationPose[]) {
+      const clock = new ManualClock();
+      const detector = new GestureDetector(clock);
+      detector.setThresholds(thresholds);
+
+      const states = detectFrames(detector, clock, repeat(handFixture(pose), 8));
+      expect(states[7].current, pose).toBe(EXPECTED[pose]);
+    }
+  });
+
+  it('keeps the palm stillness threshold above its minimum', () => {
+    const { thresholds } = calibrate(pose => pose).createProfile('test');
+    expect(thresholds.palmStability).toBeGreaterThanOrEqual(CALIBRATION.MIN_PALM_STABILITY);
+  });
+
+  it('refuses poses it cannot tell apart', () => {
+    expect(() => calibrate(() => 'palm').createProfile('test')).toThrow();
+  });
+});
+
+describe('isValidThresholds', () => {
+  it('accepts calibrated and default thresholds', () => {
+    expect(isValidThresholds(calibrate(pose => pose).createProfile('test').thresholds)).toBe(true);
+    expect(isValidThresholds(CALIBRATION.DEFAULT_THRESHOLDS)).toBe(true);
+  });
+
+  it('rejects missing, non-numeric, non-finite or non-positive fields', () => {
+    const defaults = CALIBRATION.DEFAULT_THRESHOLDS;
+    const withoutPinch: Partial<typeof defaults> = { ...defaults };
+    delete withoutPinch.pinch;
+    expect(isValidThresholds(withoutPinch)).toBe(false);
+    expect(isValidThresholds({ ...defaults, curlBand: '0.1' })).toBe(false);
+    expect(isValidThresholds({ ...defaults, palmStability: null })).toBe(false);
+    expect(isValidThresholds({ ...defaults, fingerCurl: Infinity })).toBe(false);
+    expect(isValidThresholds({ ...defaults, thumbBand: 0 })).toBe(false);
+    expect(isValidThresholds(null)).toBe(false);
+  });
+});
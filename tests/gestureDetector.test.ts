@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest';
+import { GestureDetector, GestureEvent } from '../src/gestureDetector';
+import { CALIBRATION, GESTURE, GESTURE_HYSTERESIS, LANDMARKS, SHORTCUTS } from '../src/constants';
+import { GestureType } from '../src/types';
+import { FRAME_MS, ManualClock, detectFrames, repeat } from './fixtures/clock';
+import { FIXTURE_FOCAL_LENGTH, FixturePose, handFixture, movingFixture } from './fixtures/hands';
+
+const EXPECTED: Record<FixturePose, GestureType> = {
+  point: 'draw',
+  palm: 'palm',
+  fist: 'fist',
+  pinch: 'pinch',
+  peace: 'none',
+  three: 'none',
+  four: 'none'
+};
+
+// Poses in the fixture library are clear-cut, so they should never be borderline
+const CONFIDENCE_FLOOR = 0.6;
+
+function setup() {
+  const clock = new ManualClock();
+  return { clock, detector: new GestureDetector(clock) };
+}
+
+// Long enough for any dwell and the palm's stillness check
+function settle(pose: FixturePose, options = {}) {
+  const { clock, detector } = setup();
+  const states = detectFrames(detector, clock, repeat(handFixture(pose, options), 8));
+  return states[states.length - 1];
+}
+
+describe('GestureDetector classification', () => {
+  for (const [pose, gesture] of Object.entries(EXPECTED) as [FixturePose, GestureType][]) {
+    it(`classifies ${pose} as ${gesture}`, () => {
+      const state = settle(pose);
+      expect(state.current).toBe(gesture);
+      expect(state.confidence).toBeGreaterThan(CONFIDENCE_FLOOR);
+    });
+  }
+
+  it('gives the same result at any hand size', () => {
+    for (const size of [40, 100, 250]) {
+      for (const [pose, gesture] of Object.entries(EXPECTED) as [FixturePose, GestureType][]) {
+        expect(settle(pose, { size }).current, `${pose} at ${size}px`).toBe(gesture);
+      }
+    }
+  });
+
+  it('recognizes left hands', () => {
+    for (const [pose, gesture] of Object.entries(EXPECTED) as [FixturePose, GestureType][]) {
+      expect(settle(pose, { handedness: 'left' }).current, pose).toBe(gesture);
+    }
+  });
+
+  it('waits for dwell frames before switching gesture', () => {
+    const { clock, detector } = setup();
+    detectFrames(detector, clock, repeat(handFixture('point'), 5));
+
+    // A single stray fist frame doesn't interrupt drawing
+    const flicker = detectFrames(detector, clock, [handFixture('fist'), handFixture('point')]);
+    expect(flicker.map(s => s.current)).toEqual(['draw', 'draw']);
+
+    const states = detectFrames(detector, clock, repeat(handFixture('fist'), 3));
+    expect(states.map(s => s.current)).toEqual(['draw', 'draw', 'fist']);
+  });
+
+  it('reports how long the gesture has been held', () => {
+    const { clock, detector } = setup();
+    const states = detectFrames(detector, clock, repeat(handFixture('fist'), 10));
+    const start = states.findIndex(s => s.current === 'fist');
+
+    expect(states[start].duration).toBe(0);
+    expect(states[9].duration).toBeCloseTo((9 - start) * FRAME_MS);
+  });
+
+  it('follows calibrated thresholds', () => {
+    const { clock, detector } = setup();
+    // A pinch threshold smaller than the fixture's fingertip gap turns the pinch into a point
+    detector.setThresholds({ ...CALIBRATION.DEFAULT_THRESHOLDS, pinch: 1 });
+    const states = detectFrames(detector, clock, repeat(handFixture('pinch'), 5));
+    expect(states[4].current).toBe('draw');
+  });
+});
+
+describe('GestureDetector finger count', () => {
+  const COUNTS: Record<FixturePose, number> = { fist: 0, point: 1, peace: 2, three: 3, four: 4, palm: 5, pinch: 2 };
+
+  it('counts extended fingers, thumb included', () => {
+    for (const [pose, count] of Object.entries(COUNTS) as [FixturePose, number][]) {
+      expect(settle(pose).fingers, pose).toBe(count);
+    }
+  });
+
+  it('holds a new count back until it has been seen for a few frames', () => {
+    const { clock, detector } = setup();
+    detectFrames(detector, clock, repeat(handFixture('peace'), 5));
+
+    const states = detectFrames(detector, clock, repeat(handFixture('three'), SHORTCUTS.COUNT_DWELL_FRAMES));
+    expect(states.map(s => s.fingers)).toEqual([...repeat(2, SHORTCUTS.COUNT_DWELL_FRAMES - 1), 3]);
+    expect(states[states.length - 1].fingersDuration).toBe(0);
+  });
+
+  it('reports how long the count has been held', () => {
+    const { clock, detector } = setup();
+    detectFrames(detector, clock, repeat(handFixture('three'), SHORTCUTS.COUNT_DWELL_FRAMES));
+    const states = detectFrames(detector, clock, repeat(handFixture('three'), 6));
+    expect(states[5].fingersDuration).toBeCloseTo(6 * FRAME_MS);
+  });
+});
+
+describe('GestureDetector velocity', () => {
+  it('measures velocity against the injected clock', () => {
+    const { clock, detector } = setup();
+    const states = detectFrames(detector, clock, movingFixture('fist', 4, 10, 0));
+
+    expect(states[0].velocity).toEqual({ x: 0, y: 0 });
+    expect(states[3].velocity.x).toBeCloseTo(10 / (FRAME_MS / 1000));
+    expect(states[3].velocity.y).toBeCloseTo(0);
+  });
+
+  it('detects a fast horizontal swipe', () => {
+    const { clock, detector } = setup();
+    const perFrame = GESTURE.SWIPE_VELOCITY * 1.5 * FRAME_MS / 1000;
+    const states = detectFrames(detector, clock, movingFixture('fist', 4, perFrame, 0));
+    expect(states.some(s => s.current === 'swipe')).toBe(true);
+  });
+
+  it('does not swipe when the same movement is slow', () => {
+    const { clock, detector } = setup();
+    const perFrame = GESTURE.SWIPE_VELOCITY * 0.5 * FRAME_MS / 1000;
+    const states = detectFrames(detector, clock, movingFixture('fist', 10, perFrame, 0));
+    expect(states.some(s => s.current === 'swipe')).toBe(false);
+  });
+});
+
+describe('GestureDetector movement gestures', () => {
+  it('reports a swipe left for one frame', () => {
+    const { clock, detector } = setup();
+    // Four hand sizes in ~300ms, well inside the swipe window
+    const states = detectFrames(detector, clock, movingFixture('peace', 10, -45, 0));
+    const swipes = states.filter(s => s.current === 'swipe-left');
+    expect(swipes).toHaveLength(1);
+  });
+
+  it('ignores movement while drawing', () => {
+    const { clock, detector } = setup();
+    detectFrames(detector, clock, repeat(handFixture('point'), 4));
+    const states = detectFrames(detector, clock, movingFixture('point', 10, -10, 0));
+    expect(states.every(s => s.current === 'draw')).toBe(true);
+  });
+});
+
+describe('GestureDetector events', () => {
+  function record(detector: GestureDetector): GestureEvent[] {
+    const events: GestureEvent[] = [];
+    detector.on('gesturestart', e => events.push(e));
+    detector.on('gesturehold', e => events.push(e));
+    detector.on('gestureend', e => events.push(e));
+    return events;
+  }
+
+  it('fires start, hold and end in order', () => {
+    const { clock, detector } = setup();
+    const events = record(detector);
+
+    detectFrames(detector, clock, [...repeat(handFixture('fist'), 6), ...repeat(handFixture('peace'), 4)]);
+
+    const types = events.map(e => `${e.type}:${e.gesture}`);
+    expect(types[0]).toBe('gesturestart:fist');
+    expect(types.filter(t => t === 'gestureend:fist')).toHaveLength(1);
+    expect(types.indexOf('gestureend:fist')).toBeGreaterThan(types.lastIndexOf('gesturehold:fist'));
+    // 'none' has no events of its own
+    expect(types.some(t => t.endsWith(':none'))).toBe(false);
+  });
+
+  it('reports hold progress and completes once', () => {
+    const { clock, detector } = setup();
+    const events = record(detector);
+    detector.setHoldTimeResolver(gesture => gesture === 'fist' ? 500 : null);
+
+    detectFrames(detector, clock, repeat(handFixture('fist'), 30));
+
+    const holds = events.filter(e => e.type === 'gesturehold');
+    const completed = holds.filter(e => e.completed);
+    expect(completed).toHaveLength(1);
+    expect(completed[0].duration).toBeGreaterThanOrEqual(500);
+    expect(completed[0].duration).toBeLessThan(500 + FRAME_MS);
+
+    const progress = holds.map(e => e.progress ?? -1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('has no progress for gestures without a hold time', () => {
+    const { clock, detector } = setup();
+    const events = record(detector);
+    detectFrames(detector, clock, repeat(handFixture('fist'), 5));
+    expect(events.every(e => e.progress === null && !e.completed)).toBe(true);
+  });
+
+  it('ends a gesture after a short grace period of uncertain frames', () => {
+    const { clock, detector } = setup();
+    const events = record(detector);
+
+    // Bridged frames of another pose, too uncertain to switch to
+    const uncertain = { ...handFixture('palm'), confidence: 0.3 };
+    const states = detectFrames(detector, clock, [...repeat(handFixture('fist'), 5), ...repeat(uncertain, 15)]);
+
+    // The palm needs its dwell frames before it contends with the fist, then the grace period runs
+    const graceFrames = Math.ceil(GESTURE_HYSTERESIS.LOW_CONFIDENCE_GRACE / FRAME_MS);
+    const palmDwell = GESTURE_HYSTERESIS.BANDS.palm!.dwellFrames;
+    expect(states[5 + graceFrames - 1].current).toBe('fist');
+    expect(states[5 + palmDwell + graceFrames].current).toBe('none');
+    expect(states[19].current).toBe('none');
+    expect(events[events.length - 1].type).toBe('gestureend');
+    expect(events[events.length - 1].gesture).toBe('fist');
+  });
+
+  it('ends the gesture when the hand is lost', () => {
+    const { clock, detector } = setup();
+    const events = record(detector);
+
+    detectFrames(detector, clock, [...repeat(handFixture('fist'), 5), null]);
+
+    const last = events[events.length - 1];
+    expect(last.type).toBe('gestureend');
+    expect(last.gesture).toBe('fist');
+    expect(last.landmarks).toBeNull();
+  });
+
+  it('stops calling removed listeners', () => {
+    const { clock, detector } = setup();
+    let calls = 0;
+    const listener = () => calls++;
+    detector.on('gesturestart', listener);
+    detector.off('gesturestart', listener);
+
+    detectFrames(detector, clock, repeat(handFixture('fist'), 5));
+    expect(calls).toBe(0);
+  });
+});
+
+describe('GestureDetector depth', () => {
+  function depthSetup() {
+    const { clock, detector } = setup();
+    detector.setFocalLength(FIXTURE_FOCAL_LENGTH);
+    return { clock, detector };
+  }
+
+  it('estimates hand distance from world landmarks', () => {
+    const { clock, detector } = depthSetup();
+    const states = detectFrames(detector, clock, repeat(handFixture('fist', { distance: 0.5 }), 3));
+    expect(states[2].depth).toBeCloseTo(0.5, 3);
+  });
+
+  it('has no depth without world landmarks', () => {
+    expect(settle('fist').depth).toBeNull();
+  });
+
+  it('rejects a pinch whose fingertips only overlap on screen', () => {
+    const { clock, detector } = depthSetup();
+    const overlap = handFixture('pinch', { distance: 0.5, zOffsets: { [LANDMARKS.THUMB_TIP]: 0.05 } });
+    const states = detectFrames(detector, clock, repeat(overlap, 5));
+    expect(states[4].current).not.toBe('pinch');
+  });
+
+  it('puts the pen down when pushed past the plane and lifts it on the way back', () => {
+    const { clock, detector } = depthSetup();
+    detector.setPushToDraw(true);
+
+    const at = (distance: number) => handFixture('peace', { distance });
+    const approach = Array.from({ length: 11 }, (_, i) => at(0.5 - i * 0.01));
+    const retreat = Array.from({ length: 11 }, (_, i) => at(0.4 + i * 0.01));
+
+    const resting = detectFrames(detector, clock, repeat(at(0.5), 10));
+    expect(resting[9].current).toBe('none');
+    expect(resting[9].push).toBe(0);
+
+    const pushed = detectFrames(detector, clock, [...approach, ...repeat(at(0.4), 5)]);
+    expect(pushed[pushed.length - 1].current).toBe('draw');
+
+    const back = detectFrames(detector, clock, [...retreat, ...repeat(at(0.5), 5)]);
+    expect(back[back.length - 1].current).toBe('none');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TemplateClassifier,
+  customGestureId,
+  extractPoseFeatures,
+  parseCustomGestures,
+  serializeCustomGestures
+} from '../src/gestureTemplates';
+import { CustomGesture } from '../src/types';
+import { TEMPLATES } from '../src/constants';
+import { handFixture } from './fixtures/hands';
+
+function gestureFrom(name: string, pose: Parameters<typeof handFixture>[0]): CustomGesture {
+  return {
+    id: customGestureId(name),
+    name,
+    samples: [extractPoseFeatures(handFixture(pose))!],
+    createdAt: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+describe('extractPoseFeatures', () => {
+  it('is independent of position, size and handedness', () => {
+    const reference = extractPoseFeatures(handFixture('peace'))!;
+    const moved = extractPoseFeatures(handFixture('peace', { x: 200, y: 300, size: 220 }))!;
+    const left = extractPoseFeatures(handFixture('peace', { handedness: 'left' }))!;
+
+    moved.forEach((value, i) => expect(value).toBeCloseTo(reference[i]));
+    left.forEach((value, i) => expect(value).toBeCloseTo(reference[i]));
+  });
+});
+
+describe('TemplateClassifier', () => {
+  it('matches the recorded pose and keeps others out of range', () => {
+    const classifier = new TemplateClassifier();
+    classifier.setGestures([gestureFrom('Peace', 'peace'), gestureFrom('Rock', 'fist')]);
+
+    const [best, next] = classifier.match(extractPoseFeatures(handFixture('peace', { size: 150 }))!);
+    expect(best.gesture).toBe('custom:peace');
+    expect(best.distance).toBeLessThan(0.01);
+    expect(next.distance).toBeGreaterThan(TEMPLATES.MAX_DISTANCE);
+  });
+});
+
+describe('custom gesture files', () => {
+  it('round-trips through serialize and parse', () => {
+    const gestures = [gestureFrom('Thumbs up!', 'fist')];
+    expect(parseCustomGestures(serializeCustomGestures(gestures))).toEqual(gestures);
+    expect(gestures[0].id).toBe('custom:thumbs-up');
+  });
+
+  it('rejects files that are not gesture libraries', () => {
+    expect(() => parseCustomGestures('{}')).toThrow('Not a custom gesture file');
+    expect(() => parseCustomGestures({ version: 99, gestures: [] })).toThrow('Unsupported');
+  });
+
+  it('rejects files with malformed samples', () => {
+    const gesture = gestureFrom('Peace', 'peace');
+    const withSample = (sample: unknown) => ({ version: 1, gestures: [{ ...gesture, samples: [sample] }] });
+
+    expect(() => parseCustomGestures(withSample(gesture.samples[0].slice(1)))).toThrow('invalid samples');
+    expect(() => parseCustomGestures(withSample(gesture.samples[0].map(() => 'a')))).toThrow('invalid samples');
+    expect(() => parseCustomGestures(withSample(gesture.samples[0].map(() => null)))).toThrow('invalid samples');
+    expect(() => parseCustomGestures(withSample('sample'))).toThrow('invalid samples');
+  });
+});
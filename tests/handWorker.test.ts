@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HandWorkerRequest, HandWorkerResponse } from '../src/types';
+
+// Stand-in for MediaPipe's worker branch: the WASM loaders read their module config from the
+// global scope, and the GL context is created on an OffscreenCanvas without being kept for uploads
+class FakeOffscreenCanvas {
+  readonly context = { canvas: this };
+
+  getContext(type: string) {
+    return type === 'webgl2' ? this.context : null;
+  }
+}
+
+interface FakeScope {
+  Hands?: unknown;
+  createMediapipeSolutionsPackedAssets?: { locateFile(file: string): string };
+  importScripts(...urls: string[]): void;
+  postMessage(message: HandWorkerResponse): void;
+  onmessage: ((event: { data: HandWorkerRequest }) => Promise<void>) | null;
+}
+
+function createScope() {
+  const messages: HandWorkerResponse[] = [];
+  const imported: string[] = [];
+  const resolved: string[] = [];
+
+  const scope: FakeScope = {
+    importScripts: (...urls) => {
+      imported.push(...urls);
+      scope.Hands = FakeHands;
+    },
+    postMessage: (message) => messages.push(message),
+    onmessage: null
+  };
+
+  class FakeHands {
+    h: { m?: FakeOffscreenCanvas; K?: unknown } = {};
+    private callback: ((results: unknown) => void) | null = null;
+
+    setOptions() {}
+
+    onResults(callback: (results: unknown) => void) {
+      this.callback = callback;
+    }
+
+    async initialize() {
+      const config = scope.createMediapipeSolutionsPackedAssets;
+      if (!config) throw new Error('Module config missing');
+      resolved.push(config.locateFile('hands_solution_simd_wasm_bin.wasm'));
+      resolved.push(config.locateFile('hands.binarypb'));
+      this.h.m = new FakeOffscreenCanvas();
+    }
+
+    async send() {
+      if (!this.h.K) throw new TypeError("Cannot read properties of undefined (reading 'canvas')");
+      this.callback?.({
+        multiHandLandmarks: [[{ x: 0.5, y: 0.5, z: 0 }]],
+        multiHandWorldLandmarks: [[{ x: 0, y: 0, z: 0 }]],
+        multiHandedness: [{ index: 0, score: 0.9, label: 'Left' }]
+      });
+    }
+
+    async close() {}
+  }
+
+  return { scope, messages, imported, resolved };
+}
+
+const INIT: HandWorkerRequest = {
+  type: 'init',
+  baseUrl: '/mediapipe/',
+  fileUrls: { 'hands.binarypb': 'blob:graph' },
+  options: { maxNumHands: 2, modelComplexity: 1, minDetectionConfidence: 0.5, minTrackingConfidence: 0.5 }
+};
+
+describe('handWorker', () => {
+  let setup: ReturnType<typeof createScope>;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    setup = createScope();
+    vi.stubGlobal('self', setup.scope);
+    vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+    await import('../src/handWorker');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves MediaPipe files through the prepared asset URLs', async () => {
+    await setup.scope.onmessage!({ data: INIT });
+
+    expect(setup.messages).toEqual([{ type: 'ready' }]);
+    expect(setup.imported).toEqual(['/mediapipe/hands.js']);
+    expect(setup.resolved).toEqual(['/mediapipe/hands_solution_simd_wasm_bin.wasm', 'blob:graph']);
+  });
+
+  it('runs inference on frames sent after init', async () => {
+    await setup.scope.onmessage!({ data: INIT });
+
+    const image = { close: vi.fn() } as unknown as ImageBitmap;
+    await setup.scope.onmessage!({ data: { type: 'frame', image, timestamp: 42 } });
+
+    expect(setup.messages[1]).toEqual({
+      type: 'results',
+      timestamp: 42,
+      multiHandLandmarks: [[{ x: 0.5, y: 0.5, z: 0 }]],
+      multiHandWorldLandmarks: [[{ x: 0, y: 0, z: 0 }]],
+      handednessLabels: ['Left']
+    });
+    expect(image.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { InferenceGovernor } from '../src/inferenceGovernor';
+import { INFERENCE } from '../src/constants';
+
+function feed(governor: InferenceGovernor, ms: number, count: number) {
+  for (let i = 0; i < count; i++) {
+    governor.recordLatency(ms);
+  }
+}
+
+describe('InferenceGovernor', () => {
+  it('ignores slow warm-up inferences', () => {
+    const governor = new InferenceGovernor(33);
+    feed(governor, 500, INFERENCE.WARMUP_SAMPLES);
+    feed(governor, 20, INFERENCE.SAMPLE_WINDOW);
+
+    expect(governor.getSettings()).toEqual(INFERENCE.LEVELS[0]);
+    expect(governor.getAverageLatency()).toBeCloseTo(20);
+  });
+
+  it('steps down one level at a time when the new level warms up slowly', () => {
+    const governor = new InferenceGovernor(33);
+    feed(governor, 60, INFERENCE.WARMUP_SAMPLES + INFERENCE.SAMPLE_WINDOW);
+    expect(governor.getSettings()).toEqual(INFERENCE.LEVELS[1]);
+
+    // The lite model's first frames are slow, then it holds the target comfortably
+    feed(governor, 200, INFERENCE.WARMUP_SAMPLES);
+    feed(governor, 30, INFERENCE.SAMPLE_WINDOW);
+    expect(governor.getSettings()).toEqual(INFERENCE.LEVELS[1]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { KeyboardShortcuts } from '../src/keyboardShortcuts';
+import { ShapeMatch, recognizeShape } from '../src/shapeRecognizer';
+
+function press(target: EventTarget, key: string, modifiers: Partial<KeyboardEvent> = {}): Event {
+  const event = Object.assign(new Event('keydown', { cancelable: true }), { key, ...modifiers });
+  target.dispatchEvent(event);
+  return event;
+}
+
+// The app's 'ask first' flow: closing a recognizable stroke offers its clean shape, and
+// closing again (or Esc) settles the offer
+function setup() {
+  const circle = Array.from({ length: 48 }, (_, i) => ({
+    x: 300 + Math.cos(i / 48 * Math.PI * 2) * 120,
+    y: 300 + Math.sin(i / 48 * Math.PI * 2) * 120
+  }));
+  const app = {
+    offer: null as ShapeMatch | null,
+    inflated: [] as string[],
+    undos: 0,
+    redos: 0
+  };
+  const target = new EventTarget();
+
+  new KeyboardShortcuts(target, {
+    closeAndInflate: () => {
+      if (app.offer) {
+        app.inflated.push('clean');
+        app.offer = null;
+        return;
+      }
+      app.offer = recognizeShape(circle);
+    },
+    keepDrawnShape: () => {
+      if (!app.offer) return false;
+      app.inflated.push('drawn');
+      app.offer = null;
+      return true;
+    },
+    undo: () => app.undos++,
+    redo: () => app.redos++
+  });
+
+  return { app, target };
+}
+
+describe('KeyboardShortcuts', () => {
+  it('leaves the clean shape on offer after one Enter', () => {
+    const { app, target } = setup();
+    press(target, 'Enter');
+
+    expect(app.offer?.shape).toBe('circle');
+    expect(app.inflated).toEqual([]);
+
+    press(target, 'Enter');
+    expect(app.inflated).toEqual(['clean']);
+  });
+
+  it('keeps the drawn shape on Esc', () => {
+    const { app, target } = setup();
+    press(target, 'Enter');
+    const event = press(target, 'Escape');
+
+    expect(app.inflated).toEqual(['drawn']);
+    expect(event.defaultPrevented).toBe(true);
+    expect(press(target, 'Escape').defaultPrevented).toBe(false);
+  });
+
+  it('undoes and redoes with Ctrl/Cmd', () => {
+    const { app, target } = setup();
+    press(target, 'z', { ctrlKey: true });
+    press(target, 'Z', { metaKey: true, shiftKey: true });
+    press(target, 'y', { ctrlKey: true });
+    press(target, 'z');
+
+    expect(app.undos).toBe(1);
+    expect(app.redos).toBe(2);
+  });
+
+  it('leaves keys in form controls and buttons alone', () => {
+    const { app } = setup();
+    const button = Object.assign(new EventTarget(), { tagName: 'BUTTON' });
+    new KeyboardShortcuts(button, {
+      closeAndInflate: () => app.inflated.push('button'),
+      keepDrawnShape: () => false,
+      undo: () => app.undos++,
+      redo: () => app.redos++
+    });
+
+    press(button, 'Enter');
+    press(button, 'z', { ctrlKey: true });
+    expect(app.inflated).toEqual([]);
+    expect(app.undos).toBe(0);
+  });
+});
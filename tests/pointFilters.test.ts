@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DeadZoneFilter,
+  ExponentialFilter,
+  FilterChain,
+  MovingAverageFilter,
+  OneEuroFilter,
+  createFilterChain
+} from '../src/pointFilters';
+import { SMOOTHING } from '../src/constants';
+import { Point2D } from '../src/types';
+
+const FRAME = 1000 / 30;
+
+// Feeds points one per frame and returns the filtered outputs
+function run(filter: { filter(point: Point2D, time: number): Point2D }, points: Point2D[]): Point2D[] {
+  return points.map((point, i) => filter.filter(point, i * FRAME));
+}
+
+// Deterministic tremor around (100, 100)
+function noisyStill(frames: number): Point2D[] {
+  return Array.from({ length: frames }, (_, i) => ({
+    x: 100 + (i % 2 === 0 ? 3 : -3),
+    y: 100 + (i % 3 === 0 ? 2 : -2)
+  }));
+}
+
+function spread(points: Point2D[]): number {
+  const xs = points.map(p => p.x);
+  return Math.max(...xs) - Math.min(...xs);
+}
+
+describe('OneEuroFilter', () => {
+  it('passes the first point through', () => {
+    const filter = new OneEuroFilter(1, 0.01);
+    expect(filter.filter({ x: 5, y: 7 }, 0)).toEqual({ x: 5, y: 7 });
+  });
+
+  it('steadies a noisy fingertip held still', () => {
+    const input = noisyStill(60);
+    const output = run(new OneEuroFilter(1, 0.01), input);
+    expect(spread(output.slice(30))).toBeLessThan(spread(input) / 3);
+  });
+
+  it('lags a fast stroke less than the moving average', () => {
+    const input = Array.from({ length: 20 }, (_, i) => ({ x: i * 40, y: 0 }));
+    const oneEuro = run(new OneEuroFilter(1, 0.01), input)[input.length - 1];
+    const average = run(new MovingAverageFilter(10), input)[input.length - 1];
+    const target = input[input.length - 1].x;
+    expect(target - oneEuro.x).toBeLessThan(target - average.x);
+  });
+
+  it('keeps its output for a second point at the same instant', () => {
+    const filter = new OneEuroFilter(1, 0.01);
+    filter.filter({ x: 0, y: 0 }, 0);
+    const first = filter.filter({ x: 10, y: 0 }, FRAME);
+    expect(filter.filter({ x: 50, y: 0 }, FRAME)).toEqual(first);
+  });
+
+  it('starts over after a reset', () => {
+    const filter = new OneEuroFilter(1, 0.01);
+    run(filter, noisyStill(10));
+    filter.reset();
+    expect(filter.filter({ x: 300, y: 300 }, 1000)).toEqual({ x: 300, y: 300 });
+  });
+});
+
+describe('ExponentialFilter', () => {
+  it('moves alpha of the way towards each new point', () => {
+    const filter = new ExponentialFilter(0.25);
+    filter.filter({ x: 0, y: 0 });
+    expect(filter.filter({ x: 100, y: 40 })).toEqual({ x: 25, y: 10 });
+    expect(filter.filter({ x: 100, y: 40 })).toEqual({ x: 43.75, y: 17.5 });
+  });
+});
+
+describe('MovingAverageFilter', () => {
+  it('averages the last window of points', () => {
+    const output = run(new MovingAverageFilter(2), [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 30, y: 6 }]);
+    expect(output).toEqual([{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 20, y: 3 }]);
+  });
+});
+
+describe('DeadZoneFilter', () => {
+  it('ignores movements inside the threshold', () => {
+    const output = run(new DeadZoneFilter(5), [{ x: 0, y: 0 }, { x: 3, y: 3 }, { x: 4, y: 4 }]);
+    expect(output).toEqual([{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 4, y: 4 }]);
+  });
+});
+
+describe('createFilterChain', () => {
+  it('runs the dead zone before the chosen filter', () => {
+    const chain = createFilterChain({ ...SMOOTHING.DEFAULT, filter: 'exponential', alpha: 0.5, deadZone: 5 });
+    chain.filter({ x: 0, y: 0 }, 0);
+    // Inside the dead zone: the filter sees the held point again
+    expect(chain.filter({ x: 2, y: 0 }, FRAME)).toEqual({ x: 0, y: 0 });
+    expect(chain.filter({ x: 20, y: 0 }, FRAME * 2)).toEqual({ x: 10, y: 0 });
+  });
+
+  it('resets every stage', () => {
+    const chain = new FilterChain([new DeadZoneFilter(5), new MovingAverageFilter(5)]);
+    run(chain, [{ x: 0, y: 0 }, { x: 50, y: 0 }]);
+    chain.reset();
+    expect(chain.filter({ x: 200, y: 0 }, 0)).toEqual({ x: 200, y: 0 });
+  });
+});
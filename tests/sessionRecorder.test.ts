@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecorder, parseRecording, serializeRecording } from '../src/sessionRecorder';
+import { ReplayLandmarkSource } from '../src/landmarkSource';
+import { RECORDING } from '../src/constants';
+import { LandmarkFrame } from '../src/types';
+
+function frame(timestamp: number): LandmarkFrame {
+  return { timestamp, multiHandLandmarks: [[{ x: 0.5, y: 0.5, z: 0 }]] };
+}
+
+describe('SessionRecorder', () => {
+  it('records frames relative to the first one, with the active color', () => {
+    const recorder = new SessionRecorder();
+    recorder.setColor('#BAFFC9');
+    recorder.start(800, 600);
+    recorder.capture(frame(500));
+    recorder.capture(frame(540));
+
+    const recording = parseRecording(serializeRecording(recorder.stop()));
+    expect(recording.frames.map(f => f.timestamp)).toEqual([0, 40]);
+    expect(recording.frames[0].color).toBe('#BAFFC9');
+    expect(recording.canvasWidth).toBe(800);
+  });
+
+  it('stops capturing at the time limit', () => {
+    const recorder = new SessionRecorder();
+    recorder.start(800, 600);
+    for (let t = 0; t <= RECORDING.MAX_DURATION + 1000; t += 100) {
+      recorder.capture(frame(t));
+    }
+
+    expect(recorder.hasReachedLimit()).toBe(true);
+    const { frames } = recorder.stop();
+    expect(frames[frames.length - 1].timestamp).toBeLessThanOrEqual(RECORDING.MAX_DURATION);
+
+    recorder.start(800, 600);
+    expect(recorder.hasReachedLimit()).toBe(false);
+  });
+});
+
+describe('parseRecording', () => {
+  const recording = (frames: unknown[]) => JSON.stringify({ version: 1, recordedAt: '', canvasWidth: 800, canvasHeight: 600, frames });
+
+  it('rejects frames without a numeric timestamp', () => {
+    expect(() => parseRecording(recording([frame(0), { multiHandLandmarks: [] }])))
+      .toThrow('Recording frame 1 has no timestamp');
+  });
+
+  it('rejects landmarks that are not numeric points', () => {
+    expect(() => parseRecording(recording([{ timestamp: 0, multiHandLandmarks: [[{ x: 0.5, y: '0.5', z: 0 }]] }])))
+      .toThrow('Recording frame 0 has invalid landmarks');
+    expect(() => parseRecording(recording([{ ...frame(0), multiHandWorldLandmarks: [null] }])))
+      .toThrow('Recording frame 0 has invalid world landmarks');
+  });
+});
+
+describe('ReplayLandmarkSource', () => {
+  it('reports an empty recording instead of waiting for frames', async () => {
+    const replay = new ReplayLandmarkSource(new SessionRecorder().stop());
+    await expect(replay.start(() => {})).rejects.toThrow('Recording has no frames');
+    // Not left running, so a second start reports it again
+    await expect(replay.start(() => {})).rejects.toThrow('Recording has no frames');
+  });
+});
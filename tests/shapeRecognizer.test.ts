@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { recognizeShape, snapStroke } from '../src/shapeRecognizer';
+import { SHAPES } from '../src/constants';
+import { Point2D, Stroke } from '../src/types';
+
+// Points along a closed polygon, spaced like a hand-drawn stroke, with a deterministic wobble
+function traced(vertices: Point2D[], spacing = 8, wobble = 3): Point2D[] {
+  const points: Point2D[] = [];
+  vertices.forEach((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    const steps = Math.max(1, Math.round(Math.hypot(b.x - a.x, b.y - a.y) / spacing));
+    for (let k = 0; k < steps; k++) {
+      const n = points.length;
+      points.push({
+        x: a.x + (b.x - a.x) * k / steps + Math.sin(n * 1.7) * wobble,
+        y: a.y + (b.y - a.y) * k / steps + Math.cos(n * 2.3) * wobble
+      });
+    }
+  });
+  return points;
+}
+
+function ellipse(cx: number, cy: number, a: number, b: number, angle = 0, count = 80): Point2D[] {
+  return Array.from({ length: count }, (_, i) => {
+    const t = i / count * Math.PI * 2;
+    const u = Math.cos(t) * a;
+    const v = Math.sin(t) * b;
+    return { x: cx + u * Math.cos(angle) - v * Math.sin(angle), y: cy + u * Math.sin(angle) + v * Math.cos(angle) };
+  });
+}
+
+function star(cx: number, cy: number, outer: number, inner: number): Point2D[] {
+  return Array.from({ length: 10 }, (_, k) => {
+    const angle = -Math.PI / 2 + k * Math.PI / 5;
+    const r = k % 2 === 0 ? outer : inner;
+    return { x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r };
+  });
+}
+
+function heart(cx: number, cy: number, size: number): Point2D[] {
+  return Array.from({ length: 60 }, (_, i) => {
+    const t = i / 60 * Math.PI * 2;
+    return {
+      x: cx + size * 16 * Math.sin(t) ** 3 / 16,
+      y: cy - size * (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) / 16
+    };
+  });
+}
+
+describe('recognizeShape', () => {
+  it('recognizes a wobbly circle', () => {
+    expect(recognizeShape(traced(ellipse(300, 300, 120, 120)))?.shape).toBe('circle');
+  });
+
+  it('recognizes a tilted ellipse', () => {
+    expect(recognizeShape(traced(ellipse(300, 300, 180, 80, 0.5)))?.shape).toBe('ellipse');
+  });
+
+  it('recognizes a rectangle, even rotated', () => {
+    const corners = [{ x: 0, y: 0 }, { x: 260, y: 0 }, { x: 260, y: 150 }, { x: 0, y: 150 }];
+    expect(recognizeShape(traced(corners))?.shape).toBe('rectangle');
+
+    const tilted = corners.map(p => ({ x: 300 + p.x * 0.9 - p.y * 0.4, y: 200 + p.x * 0.4 + p.y * 0.9 }));
+    expect(recognizeShape(traced(tilted))?.shape).toBe('rectangle');
+  });
+
+  it('recognizes a triangle', () => {
+    expect(recognizeShape(traced([{ x: 200, y: 50 }, { x: 380, y: 330 }, { x: 30, y: 310 }]))?.shape).toBe('triangle');
+  });
+
+  it('recognizes a five-pointed star', () => {
+    expect(recognizeShape(traced(star(300, 300, 150, 60)))?.shape).toBe('star');
+  });
+
+  it('recognizes a heart', () => {
+    expect(recognizeShape(traced(heart(300, 300, 120)))?.shape).toBe('heart');
+  });
+
+  it('leaves a free-form blob alone', () => {
+    // A bean: round on one side, dented on the other
+    const bean = Array.from({ length: 80 }, (_, i) => {
+      const t = i / 80 * Math.PI * 2;
+      const r = 120 + 45 * Math.cos(2 * t) + 30 * Math.sin(3 * t);
+      return { x: 300 + Math.cos(t) * r, y: 300 + Math.sin(t) * r };
+    });
+    expect(recognizeShape(bean)).toBeNull();
+  });
+
+  it('does not take a pentagon for a star', () => {
+    const pentagon = Array.from({ length: 5 }, (_, k) => ({
+      x: 300 + Math.cos(-Math.PI / 2 + k * Math.PI * 2 / 5) * 150,
+      y: 300 + Math.sin(-Math.PI / 2 + k * Math.PI * 2 / 5) * 150
+    }));
+    expect(recognizeShape(traced(pentagon))?.shape).not.toBe('star');
+  });
+
+  it('keeps the corners of a snapped polygon', () => {
+    const corners = [{ x: 100, y: 100 }, { x: 400, y: 100 }, { x: 400, y: 300 }, { x: 100, y: 300 }];
+    const match = recognizeShape(traced(corners, 8, 2))!;
+    expect(match.polygon).toBe(true);
+    expect(match.outline).toHaveLength(SHAPES.OUTLINE_POINTS);
+    for (const corner of corners) {
+      const nearest = Math.min(...match.outline.map(p => Math.hypot(p.x - corner.x, p.y - corner.y)));
+      expect(nearest).toBeLessThan(8);
+    }
+  });
+
+  it('fits a snapped polygon in exactly the outline points', () => {
+    // Across proportions each edge's share of the points rounds up or down differently
+    for (let height = 150; height <= 400; height += 25) {
+      const corners = [{ x: 300, y: 100 }, { x: 450, y: 100 + height }, { x: 150, y: 100 + height }];
+      const match = recognizeShape(traced(corners, 8, 2))!;
+      expect(match.shape).toBe('triangle');
+      expect(match.outline).toHaveLength(SHAPES.OUTLINE_POINTS);
+    }
+  });
+});
+
+describe('snapStroke', () => {
+  it('replaces the outline and evens out the width', () => {
+    const stroke: Stroke = {
+      points: traced(ellipse(300, 300, 120, 120)),
+      color: '#FFB3BA',
+      width: 10,
+      closed: true,
+      widths: [],
+      opacities: []
+    };
+    const match = recognizeShape(stroke.points)!;
+    const snapped = snapStroke(stroke, match);
+    expect(snapped.points).toBe(match.outline);
+    expect(snapped.color).toBe('#FFB3BA');
+    expect(snapped.widths).toBeUndefined();
+    expect(snapped.polygon).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { StrokeWidthModel, ribbonOutline } from '../src/strokeWidth';
+import { STROKE_WIDTH } from '../src/constants';
+import { Point2D } from '../src/types';
+
+const FRAME = 1000 / 30;
+
+// Samples a straight horizontal stroke moving `step` pixels per frame
+function drawLine(model: StrokeWidthModel, step: number, frames: number, depth: (i: number) => number | null = () => null) {
+  let sample = model.sample({ x: 0, y: 0 }, 0, depth(0));
+  for (let i = 1; i < frames; i++) {
+    sample = model.sample({ x: i * step, y: 0 }, i * FRAME, depth(i));
+  }
+  return sample;
+}
+
+describe('StrokeWidthModel', () => {
+  it('keeps the tool width in constant mode', () => {
+    const sample = drawLine(new StrokeWidthModel('constant'), 50, 20);
+    expect(sample).toEqual({ factor: 1, opacity: 1 });
+  });
+
+  it('thins and lightens a fast stroke in speed mode', () => {
+    const slow = drawLine(new StrokeWidthModel('speed'), 2, 30);
+    const fast = drawLine(new StrokeWidthModel('speed'), 80, 30);
+
+    expect(slow.factor).toBeGreaterThan(1.4);
+    expect(fast.factor).toBeCloseTo(STROKE_WIDTH.MIN_FACTOR, 2);
+    expect(fast.opacity).toBeLessThan(slow.opacity);
+    expect(fast.opacity).toBeGreaterThanOrEqual(STROKE_WIDTH.MIN_OPACITY);
+  });
+
+  it('eases between widths instead of jumping', () => {
+    const model = new StrokeWidthModel('speed');
+    drawLine(model, 2, 30);
+    const next = model.sample({ x: 2 * 30 + 80, y: 0 }, 30 * FRAME);
+    expect(next.factor).toBeGreaterThan(1);
+  });
+
+  it('widens as the hand reaches toward the camera in depth mode', () => {
+    const model = new StrokeWidthModel('depth');
+    // 1 cm closer every frame, from 50 cm away
+    const sample = drawLine(model, 10, 30, i => 0.5 - i * 0.01);
+    expect(sample.factor).toBeCloseTo(STROKE_WIDTH.MAX_FACTOR, 2);
+  });
+
+  it('starts each stroke at the tool width, wherever the hand is', () => {
+    const model = new StrokeWidthModel('depth');
+    drawLine(model, 10, 30, i => 0.5 - i * 0.01);
+    model.reset();
+    expect(drawLine(model, 10, 5, () => 0.3).factor).toBe(1);
+  });
+
+  it('holds its width when depth is unknown', () => {
+    const sample = drawLine(new StrokeWidthModel('depth'), 10, 10);
+    expect(sample.factor).toBe(1);
+  });
+});
+
+describe('ribbonOutline', () => {
+  const line: Point2D[] = Array.from({ length: 11 }, (_, i) => ({ x: i * 10, y: 0 }));
+  const widths = line.map(() => 10);
+
+  it('offsets each edge by half the width', () => {
+    const { left, right } = ribbonOutline(line, widths, false);
+    expect(Math.abs(left[5].y - right[5].y)).toBeCloseTo(10);
+    expect(left[5].x).toBeCloseTo(50);
+  });
+
+  it('tapers both ends of a finished open stroke', () => {
+    const outline = ribbonOutline(line, widths, false);
+    expect(outline.widths[0]).toBeCloseTo(10 * STROKE_WIDTH.TAPER_MIN);
+    expect(outline.widths[10]).toBeCloseTo(10 * STROKE_WIDTH.TAPER_MIN);
+    expect(outline.widths[5]).toBeCloseTo(10);
+  });
+
+  it('leaves the end being drawn untapered', () => {
+    const outline = ribbonOutline(line, widths, false, false);
+    expect(outline.widths[0]).toBeCloseTo(10 * STROKE_WIDTH.TAPER_MIN);
+    expect(outline.widths[10]).toBeCloseTo(10);
+  });
+
+  it('does not taper closed strokes', () => {
+    const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const outline = ribbonOutline(square, [4, 8, 12, 16], true);
+    expect(outline.widths).toEqual([4, 8, 12, 16]);
+  });
+});
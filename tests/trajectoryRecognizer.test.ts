@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TrajectoryRecognizer, isMotionGesture } from '../src/trajectoryRecognizer';
+import { GestureType, Point2D } from '../src/types';
+import { FRAME_MS } from './fixtures/clock';
+
+const HAND_SCALE = 100;
+
+// Feeds a palm path sampled at 30 fps and returns every gesture recognized along it
+function recognize(path: (t: number) => Point2D, duration: number, suppressed = false): GestureType[] {
+  const recognizer = new TrajectoryRecognizer();
+  const gestures: GestureType[] = [];
+  for (let t = 0; t <= duration; t += FRAME_MS) {
+    const match = recognizer.update(t, path(t), HAND_SCALE, suppressed);
+    if (match) gestures.push(match.gesture);
+  }
+  return gestures;
+}
+
+// Straight line at `speed` hand sizes per second, starting after a short pause
+const line = (dx: number, dy: number, speed: number) => (t: number): Point2D => {
+  const moving = Math.max(0, t - 100) / 1000 * speed * HAND_SCALE;
+  return { x: 500 + dx * moving, y: 400 + dy * moving };
+};
+
+const circle = (direction: 1 | -1) => (t: number): Point2D => {
+  const angle = direction * t / 1000 * Math.PI * 2;
+  return { x: 500 + 150 * Math.cos(angle), y: 400 + 150 * Math.sin(angle) };
+};
+
+describe('TrajectoryRecognizer', () => {
+  it('recognizes swipes in each direction', () => {
+    expect(recognize(line(-1, 0, 10), 600)).toEqual(['swipe-left']);
+    expect(recognize(line(1, 0, 10), 600)).toEqual(['swipe-right']);
+    expect(recognize(line(0, -1, 10), 600)).toEqual(['swipe-up']);
+    expect(recognize(line(0, 1, 10), 600)).toEqual(['swipe-down']);
+  });
+
+  it('ignores slow repositioning', () => {
+    expect(recognize(line(1, 0, 2), 2000)).toEqual([]);
+  });
+
+  it('recognizes circles by direction (screen y points down)', () => {
+    expect(recognize(circle(1), 1100)).toEqual(['circle-cw']);
+    expect(recognize(circle(-1), 1100)).toEqual(['circle-ccw']);
+  });
+
+  it('recognizes a flick that stops sharply', () => {
+    const flick = (t: number): Point2D => ({ x: 500 + Math.min(Math.max(0, t - 300), 130) * 1.2, y: 400 });
+    expect(recognize(flick, 800)).toEqual(['flick']);
+  });
+
+  it('stays quiet while suppressed', () => {
+    expect(recognize(line(1, 0, 10), 600, true)).toEqual([]);
+  });
+
+  it('applies options at runtime', () => {
+    const recognizer = new TrajectoryRecognizer();
+    recognizer.setOptions({ swipeDistance: 5 });
+    expect(recognizer.getOptions().swipeDistance).toBe(5);
+  });
+
+  it('tells movement gestures from poses', () => {
+    expect(isMotionGesture('swipe-left')).toBe(true);
+    expect(isMotionGesture('palm')).toBe(false);
+  });
+});
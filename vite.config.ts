@@ -1,6 +1,85 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+// Served/emitted under this path so the app works without reaching a CDN
+const MEDIAPIPE_ASSET_PATH = 'mediapipe/hands/';
+const MEDIAPIPE_DIR = fileURLToPath(new URL('./node_modules/@mediapipe/hands/', import.meta.url));
+// Non-runtime package files are not served
+const SKIPPED_FILES = new Set(['README.md', 'package.json', 'index.d.ts']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm'
+};
+
+// Includes hands.js: it's bundled for the main thread, but the inference worker loads it with
+// importScripts, so it's served (and checksummed) as a file too
+function listMediapipeAssets(): string[] {
+  return readdirSync(MEDIAPIPE_DIR).filter(file => !SKIPPED_FILES.has(file));
+}
+
+// Size + SHA-256 for every asset, embedded in the bundle and checked before handing files to MediaPipe
+function buildChecksums(files: string[]): Record<string, { size: number; sha256: string }> {
+  const checksums: Record<string, { size: number; sha256: string }> = {};
+
+  for (const file of files) {
+    const data = readFileSync(MEDIAPIPE_DIR + file);
+    checksums[file] = {
+      size: data.length,
+      sha256: createHash('sha256').update(data).digest('hex')
+    };
+  }
+
+  return checksums;
+}
+
+function mediapipeAssets(): Plugin {
+  return {
+    name: 'mediapipe-assets',
+
+    config() {
+      return {
+        define: {
+          __MEDIAPIPE_CHECKSUMS__: JSON.stringify(buildChecksums(listMediapipeAssets()))
+        }
+      };
+    },
+
+    configureServer(server) {
+      const files = listMediapipeAssets();
+
+      server.middlewares.use(`/${MEDIAPIPE_ASSET_PATH}`, (req, res, next) => {
+        const file = (req.url ?? '').split('?')[0].replace(/^\//, '');
+
+        if (!files.includes(file)) {
+          next();
+          return;
+        }
+
+        const extension = file.slice(file.lastIndexOf('.'));
+        res.setHeader('Content-Type', CONTENT_TYPES[extension] ?? 'application/octet-stream');
+        res.end(readFileSync(MEDIAPIPE_DIR + file));
+      });
+    },
+
+    generateBundle() {
+      const files = listMediapipeAssets();
+
+      for (const file of files) {
+        this.emitFile({
+          type: 'asset',
+          fileName: MEDIAPIPE_ASSET_PATH + file,
+          source: readFileSync(MEDIAPIPE_DIR + file)
+        });
+      }
+    }
+  };
+}
 
 export default defineConfig({
+  plugins: [mediapipeAssets()],
   server: {
     host: true,
     port: 5173